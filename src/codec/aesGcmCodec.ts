@@ -0,0 +1,139 @@
+import type { CodecAdapter } from '../types';
+
+const FORMAT_VERSION = 1;
+const NONCE_LENGTH = 12;
+
+type KeyMaterial = CryptoKey | Uint8Array;
+
+export type AesGcmKeyProvider = {
+  /**
+   * Key (and its id) used to encrypt new payloads. Rotate by returning a new
+   * id; payloads written under older ids keep decrypting through `getKey`.
+   */
+  getCurrentKey():
+    | { id: string; key: KeyMaterial }
+    | Promise<{ id: string; key: KeyMaterial }>;
+  /**
+   * Resolves the key a payload was encrypted with, or `null` when it is unknown.
+   */
+  getKey(id: string): KeyMaterial | null | Promise<KeyMaterial | null>;
+};
+
+export type AesGcmCodecOptions = {
+  keyProvider: AesGcmKeyProvider;
+  /**
+   * WebCrypto implementation; defaults to `globalThis.crypto` (browsers, Node 19+).
+   * On older Node versions pass `require('node:crypto').webcrypto`.
+   */
+  crypto?: Crypto;
+};
+
+/**
+ * AES-GCM codec. Each payload is laid out as
+ * `[format version][key id length][key id][12-byte nonce][ciphertext + tag]`,
+ * so ciphertexts remain readable after the current key rotates.
+ * Raw keys (16, 24 or 32 bytes) are imported once and cached per key id.
+ */
+export function createAesGcmCodec(options: AesGcmCodecOptions): CodecAdapter {
+  const { keyProvider } = options;
+  const cryptoImpl =
+    options.crypto ??
+    (typeof globalThis.crypto?.subtle === 'object'
+      ? globalThis.crypto
+      : undefined);
+
+  if (!cryptoImpl) {
+    throw new Error(
+      '[sync-wiser][aes-gcm] A WebCrypto implementation must be provided (globalThis.crypto is not available).'
+    );
+  }
+
+  const subtle = cryptoImpl.subtle;
+  const textEncoder = new TextEncoder();
+  const textDecoder = new TextDecoder();
+  const importedKeys = new Map<string, Promise<CryptoKey>>();
+
+  const resolveKey = (id: string, material: KeyMaterial): Promise<CryptoKey> => {
+    if (!ArrayBuffer.isView(material)) {
+      return Promise.resolve(material);
+    }
+    let imported = importedKeys.get(id);
+    if (!imported) {
+      imported = subtle.importKey(
+        'raw',
+        asBufferSource(material),
+        'AES-GCM',
+        false,
+        ['encrypt', 'decrypt']
+      );
+      imported.catch(() => importedKeys.delete(id));
+      importedKeys.set(id, imported);
+    }
+    return imported;
+  };
+
+  return {
+    async encode(update) {
+      const { id, key } = await keyProvider.getCurrentKey();
+      const keyId = textEncoder.encode(id);
+      if (keyId.byteLength === 0 || keyId.byteLength > 255) {
+        throw new Error(
+          `[sync-wiser][aes-gcm] Key id "${id}" must encode to 1-255 bytes.`
+        );
+      }
+
+      const nonce = cryptoImpl.getRandomValues(new Uint8Array(NONCE_LENGTH));
+      const ciphertext = new Uint8Array(
+        await subtle.encrypt(
+          { name: 'AES-GCM', iv: nonce },
+          await resolveKey(id, key),
+          asBufferSource(update)
+        )
+      );
+
+      const headerLength = 2 + keyId.byteLength;
+      const payload = new Uint8Array(
+        headerLength + NONCE_LENGTH + ciphertext.byteLength
+      );
+      payload[0] = FORMAT_VERSION;
+      payload[1] = keyId.byteLength;
+      payload.set(keyId, 2);
+      payload.set(nonce, headerLength);
+      payload.set(ciphertext, headerLength + NONCE_LENGTH);
+      return payload;
+    },
+
+    async decode(payload) {
+      if (payload.byteLength < 2 || payload[0] !== FORMAT_VERSION) {
+        throw new Error(
+          '[sync-wiser][aes-gcm] Payload is not an AES-GCM codec payload.'
+        );
+      }
+      const keyIdLength = payload[1]!;
+      const headerLength = 2 + keyIdLength;
+      if (payload.byteLength < headerLength + NONCE_LENGTH) {
+        throw new Error('[sync-wiser][aes-gcm] Payload is truncated.');
+      }
+
+      const id = textDecoder.decode(payload.subarray(2, headerLength));
+      const material = await keyProvider.getKey(id);
+      if (!material) {
+        throw new Error(`[sync-wiser][aes-gcm] Unknown key id "${id}".`);
+      }
+
+      const nonce = payload.subarray(headerLength, headerLength + NONCE_LENGTH);
+      const plaintext = await subtle.decrypt(
+        { name: 'AES-GCM', iv: asBufferSource(nonce) },
+        await resolveKey(id, material),
+        asBufferSource(payload.subarray(headerLength + NONCE_LENGTH))
+      );
+      return new Uint8Array(plaintext);
+    },
+  };
+}
+
+// WebCrypto's typings only accept views over a plain ArrayBuffer; Yjs updates
+// never live in shared memory, so the narrowing is safe.
+function asBufferSource(bytes: Uint8Array): BufferSource {
+  return bytes as BufferSource;
+}
@@ -0,0 +1,67 @@
+import { CorruptPayloadError } from '../errors';
+import type { CodecAdapter } from '../types';
+
+const CHECKSUM_LENGTH = 4;
+
+let crcTable: Uint32Array | null = null;
+
+function getCrcTable(): Uint32Array {
+  if (crcTable) return crcTable;
+  crcTable = new Uint32Array(256);
+  for (let n = 0; n < 256; n += 1) {
+    let c = n;
+    for (let k = 0; k < 8; k += 1) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    crcTable[n] = c >>> 0;
+  }
+  return crcTable;
+}
+
+/**
+ * CRC-32 (IEEE 802.3, as used by zlib and PNG).
+ */
+export function crc32(data: Uint8Array): number {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.byteLength; i += 1) {
+    crc = table[(crc ^ data[i]!) & 0xff]! ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Appends a big-endian CRC-32 of the payload on encode and verifies it on
+ * decode, throwing `CorruptPayloadError` when the payload was truncated or
+ * altered. Place it last in `composeCodecs` so it guards the stored bytes.
+ */
+export function createChecksumCodec(): CodecAdapter {
+  return {
+    encode(update) {
+      const payload = new Uint8Array(update.byteLength + CHECKSUM_LENGTH);
+      payload.set(update, 0);
+      new DataView(payload.buffer).setUint32(update.byteLength, crc32(update));
+      return payload;
+    },
+    decode(payload) {
+      if (payload.byteLength < CHECKSUM_LENGTH) {
+        throw new CorruptPayloadError(
+          '[sync-wiser][checksum] Payload is too short to carry a checksum.'
+        );
+      }
+      const bodyLength = payload.byteLength - CHECKSUM_LENGTH;
+      const body = payload.subarray(0, bodyLength);
+      const expected = new DataView(
+        payload.buffer,
+        payload.byteOffset,
+        payload.byteLength
+      ).getUint32(bodyLength);
+      if (crc32(body) !== expected) {
+        throw new CorruptPayloadError(
+          '[sync-wiser][checksum] Payload checksum mismatch.'
+        );
+      }
+      return body.slice();
+    },
+  };
+}
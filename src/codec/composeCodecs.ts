@@ -0,0 +1,38 @@
+import type { CodecAdapter } from '../types';
+
+type Step = (data: Uint8Array) => Uint8Array | Promise<Uint8Array>;
+
+/**
+ * Chains codecs into one: `encode` runs them left to right and `decode` right
+ * to left, e.g. `composeCodecs(compression, encryption, checksum)`. Stays
+ * synchronous for as long as every codec in the chain answers synchronously.
+ */
+export function composeCodecs(...codecs: CodecAdapter[]): CodecAdapter {
+  const encoders: Step[] = codecs.map((codec) => (data) => codec.encode(data));
+  const decoders: Step[] = codecs
+    .map((codec): Step => (data) => codec.decode(data))
+    .reverse();
+
+  return {
+    encode: (update) => runSteps(encoders, update),
+    decode: (payload) => runSteps(decoders, payload),
+  };
+}
+
+function runSteps(
+  steps: Step[],
+  input: Uint8Array,
+  start = 0
+): Uint8Array | Promise<Uint8Array> {
+  let data = input;
+  for (let index = start; index < steps.length; index += 1) {
+    const result = steps[index]!(data);
+    if (typeof (result as Promise<Uint8Array>).then === 'function') {
+      return (result as Promise<Uint8Array>).then((resolved) =>
+        runSteps(steps, resolved, index + 1)
+      );
+    }
+    data = result as Uint8Array;
+  }
+  return data;
+}
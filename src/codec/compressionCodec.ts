@@ -0,0 +1,139 @@
+import type { CodecAdapter } from '../types';
+
+export type CompressionFormat = 'deflate' | 'gzip';
+
+export type Compressor = {
+  compress(data: Uint8Array, format: CompressionFormat): Promise<Uint8Array>;
+  decompress(data: Uint8Array, format: CompressionFormat): Promise<Uint8Array>;
+};
+
+export type CompressionCodecOptions = {
+  /**
+   * Format used for new payloads. Either format decodes regardless. Defaults to `'deflate'`.
+   */
+  format?: CompressionFormat;
+  /**
+   * Payloads smaller than this many bytes are stored as-is, since deflate
+   * headers outweigh the savings on tiny Yjs updates. Defaults to 256.
+   */
+  threshold?: number;
+  /**
+   * Compression backend. Defaults to the `CompressionStream` API (browsers,
+   * Node 18+); use `createZlibCompressor()` from `sync-wiser/node` elsewhere.
+   */
+  compressor?: Compressor;
+};
+
+// Compressed payloads start with MARKER followed by a format id. Plain Yjs
+// updates open with their client count as a varuint, which only produces this
+// pair for updates touching more than 16,000 clients, so payloads written
+// before compression was enabled keep decoding as-is.
+const MARKER = 0xfe;
+const FORMAT_IDS: Record<CompressionFormat | 'stored', number> = {
+  stored: 0x7c,
+  deflate: 0x7d,
+  gzip: 0x7e,
+};
+
+const DEFAULT_THRESHOLD = 256;
+
+/**
+ * Compresses payloads above `threshold` and tags them with a two-byte header.
+ * `decode` passes untagged payloads through untouched, so compression can be
+ * enabled on top of existing uncompressed data without a migration.
+ */
+export function createCompressionCodec(
+  options: CompressionCodecOptions = {}
+): CodecAdapter {
+  const format = options.format ?? 'deflate';
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+  const compressor = options.compressor ?? createStreamCompressor();
+
+  return {
+    async encode(update) {
+      if (update.byteLength < threshold) {
+        // Untagged payloads must not look tagged, so escape the rare collision.
+        return update[0] === MARKER ? withHeader('stored', update) : update;
+      }
+      const compressed = await compressor.compress(update, format);
+      if (compressed.byteLength + 2 >= update.byteLength) {
+        return update[0] === MARKER ? withHeader('stored', update) : update;
+      }
+      return withHeader(format, compressed);
+    },
+
+    async decode(payload) {
+      if (payload.byteLength < 2 || payload[0] !== MARKER) {
+        return payload;
+      }
+      const body = payload.subarray(2);
+      switch (payload[1]) {
+        case FORMAT_IDS.stored:
+          return body.slice();
+        case FORMAT_IDS.deflate:
+          return compressor.decompress(body, 'deflate');
+        case FORMAT_IDS.gzip:
+          return compressor.decompress(body, 'gzip');
+        default:
+          return payload;
+      }
+    },
+  };
+}
+
+function withHeader(
+  format: CompressionFormat | 'stored',
+  body: Uint8Array
+): Uint8Array {
+  const payload = new Uint8Array(body.byteLength + 2);
+  payload[0] = MARKER;
+  payload[1] = FORMAT_IDS[format];
+  payload.set(body, 2);
+  return payload;
+}
+
+function createStreamCompressor(): Compressor {
+  if (
+    typeof CompressionStream !== 'function' ||
+    typeof DecompressionStream !== 'function'
+  ) {
+    throw new Error(
+      '[sync-wiser][compression] CompressionStream is not available; pass a compressor (e.g. createZlibCompressor() from sync-wiser/node).'
+    );
+  }
+
+  return {
+    compress: (data, format) =>
+      pipeThrough(data, new CompressionStream(format)),
+    decompress: (data, format) =>
+      pipeThrough(data, new DecompressionStream(format)),
+  };
+}
+
+async function pipeThrough(
+  data: Uint8Array,
+  stream: CompressionStream | DecompressionStream
+): Promise<Uint8Array> {
+  const writer = stream.writable.getWriter();
+  // Failures surface on the readable side; keep these from going unhandled.
+  writer.write(data as Uint8Array<ArrayBuffer>).catch(() => undefined);
+  writer.close().catch(() => undefined);
+
+  const reader = stream.readable.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    length += value.byteLength;
+  }
+
+  const output = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return output;
+}
@@ -0,0 +1,25 @@
+import { promisify } from 'node:util';
+import * as zlib from 'node:zlib';
+import type { Compressor } from './compressionCodec';
+
+const deflate = promisify(zlib.deflate);
+const inflate = promisify(zlib.inflate);
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+/**
+ * `node:zlib` backend for `createCompressionCodec` on runtimes without
+ * `CompressionStream`. Its output is interchangeable with that backend's.
+ */
+export function createZlibCompressor(): Compressor {
+  return {
+    async compress(data, format) {
+      const output = format === 'gzip' ? await gzip(data) : await deflate(data);
+      return new Uint8Array(output.buffer, output.byteOffset, output.byteLength);
+    },
+    async decompress(data, format) {
+      const output = format === 'gzip' ? await gunzip(data) : await inflate(data);
+      return new Uint8Array(output.buffer, output.byteOffset, output.byteLength);
+    },
+  };
+}
@@ -0,0 +1,13 @@
+/**
+ * Thrown by codecs when a payload fails its integrity check. The runtime skips
+ * the payload, fills in `docId`, and reports the error through `onError`.
+ */
+export class CorruptPayloadError extends Error {
+  docId?: string;
+
+  constructor(message: string, options?: { docId?: string; cause?: unknown }) {
+    super(message, options?.cause !== undefined ? { cause: options.cause } : undefined);
+    this.name = 'CorruptPayloadError';
+    this.docId = options?.docId;
+  }
+}
@@ -1,16 +1,36 @@
-export { Wiser } from './wiser';
+export { Wiser, MIGRATION_ORIGIN } from './wiser';
 export type {
   WiserModel,
+  WiserModelOptions,
+  WiserMigration,
+  WiserMigrationContext,
+  WiserUndoOptions,
   WiserConfig,
   StorageAdapter,
   StoredDoc,
   SyncAdapter,
+  SyncPullRequest,
+  SyncPushRequest,
+  SyncPushResult,
+  SyncCursorStore,
   RealtimeAdapter,
+  RealtimeSubscribeContext,
+  RealtimeUpdateMeta,
+  RealtimeConnectionState,
   CodecAdapter,
+  ChannelCodecs,
+  CodecChannel,
   Policies,
+  RetryPolicy,
+  ConnectivityAdapter,
   CacheOptions,
+  LeaderElection,
+  TabCoordinationOptions,
 } from './types';
 export { WiserRuntime } from './runtime/runtime';
+export { createNavigatorConnectivity } from './runtime/connectivity';
+export { createLeaderElection } from './runtime/leaderElection';
+export type { LeaderElectionOptions } from './runtime/leaderElection';
 export type {
   WiserDocumentHandle,
   WiserSyncEvent,
@@ -21,12 +41,69 @@ export {
   createLocalStorageAdapter,
 } from './storage/localStorageAdapter';
 export type { LocalStorageAdapterOptions } from './storage/localStorageAdapter';
-export { WiserProvider, useWiserDoc, useWiserRuntime, useSyncWiser } from './react';
+export { createIndexedDbStorageAdapter } from './storage/indexedDbStorageAdapter';
+export type { IndexedDbStorageAdapterOptions } from './storage/indexedDbStorageAdapter';
+export {
+  WiserProvider,
+  useWiserDoc,
+  useWiserRuntime,
+  useSyncWiser,
+  useWiserPresence,
+  useWiserUndo,
+} from './react';
+export type { UseWiserUndoResult } from './react/useWiserUndo';
+export type {
+  UseWiserPresenceResult,
+  WiserPresencePeer,
+  WiserPresenceState,
+} from './react/useWiserPresence';
+export type { Awareness } from 'y-protocols/awareness';
 export {
   createSignalRRealtimeAdapter,
   SignalRRealtimeAdapterOptions,
 } from './realtime/signalrAdapter';
+export type {
+  SignalRDocumentStatus,
+  SignalRRealtimeAdapter,
+} from './realtime/signalrAdapter';
+export { createBroadcastChannelRealtimeAdapter } from './realtime/broadcastChannelAdapter';
+export type {
+  BroadcastChannelRealtimeAdapter,
+  BroadcastChannelRealtimeAdapterOptions,
+} from './realtime/broadcastChannelAdapter';
+export { combineRealtimeAdapters } from './realtime/combineRealtimeAdapters';
+export type {
+  CombineRealtimeAdaptersOptions,
+  CombinedRealtimeAdapter,
+  RealtimeTransport,
+  RealtimeTransportHealth,
+} from './realtime/combineRealtimeAdapters';
+export { createSseRealtimeAdapter } from './realtime/sseAdapter';
+export type {
+  SseRealtimeAdapter,
+  SseRealtimeAdapterOptions,
+} from './realtime/sseAdapter';
+export { createYWebsocketAdapter } from './realtime/yWebsocketAdapter';
+export type {
+  YWebsocketAdapter,
+  YWebsocketAdapterOptions,
+} from './realtime/yWebsocketAdapter';
 export {
   createRestSyncAdapter,
   RestSyncAdapterOptions,
+  RestSyncMode,
 } from './sync/restAdapter';
+export { createAesGcmCodec } from './codec/aesGcmCodec';
+export type {
+  AesGcmCodecOptions,
+  AesGcmKeyProvider,
+} from './codec/aesGcmCodec';
+export { createCompressionCodec } from './codec/compressionCodec';
+export type {
+  CompressionCodecOptions,
+  CompressionFormat,
+  Compressor,
+} from './codec/compressionCodec';
+export { composeCodecs } from './codec/composeCodecs';
+export { createChecksumCodec, crc32 } from './codec/checksumCodec';
+export { CorruptPayloadError } from './errors';
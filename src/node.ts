@@ -0,0 +1,3 @@
+export { createFileSystemStorageAdapter } from './storage/fileSystemStorageAdapter';
+export type { FileSystemStorageAdapterOptions } from './storage/fileSystemStorageAdapter';
+export { createZlibCompressor } from './codec/zlibCompressor';
@@ -2,3 +2,5 @@ export { WiserProvider } from './WiserProvider';
 export { useWiserDoc } from './useWiserDoc';
 export { useWiserRuntime } from './context';
 export { useSyncWiser } from './useSyncWiser';
+export { useWiserPresence } from './useWiserPresence';
+export { useWiserUndo } from './useWiserUndo';
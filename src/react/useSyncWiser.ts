@@ -1,5 +1,5 @@
 import { useCallback, useEffect, useMemo, useState } from 'react';
-import type { WiserModel } from '../types';
+import type { RealtimeConnectionState, WiserModel } from '../types';
 import type { WiserManualSyncOptions } from '../runtime/runtime';
 import { useWiserDoc, type UseWiserDocResult } from './useWiserDoc';
 import { useWiserRuntime } from './context';
@@ -7,6 +7,10 @@ import { useWiserRuntime } from './context';
 export type UseSyncWiserResult<TShape extends Record<string, unknown>> =
   UseWiserDocResult<TShape> & {
     isSyncing: boolean;
+    /**
+     * Realtime connection state, or `null` when the adapter does not report one.
+     */
+    realtimeStatus: RealtimeConnectionState | null;
   };
 
 export function useSyncWiser<TShape extends Record<string, unknown>>(
@@ -16,6 +20,14 @@ export function useSyncWiser<TShape extends Record<string, unknown>>(
   const runtime = useWiserRuntime();
   const docResult = useWiserDoc(docId, model);
   const [inflightOperations, setInflightOperations] = useState(0);
+  const [realtimeStatus, setRealtimeStatus] = useState(() =>
+    runtime.getRealtimeStatus()
+  );
+
+  useEffect(() => {
+    setRealtimeStatus(runtime.getRealtimeStatus());
+    return runtime.onRealtimeStatusChange(setRealtimeStatus);
+  }, [runtime]);
 
   useEffect(() => {
     const unsubscribe = runtime.onSyncEvent((event) => {
@@ -55,6 +67,7 @@ export function useSyncWiser<TShape extends Record<string, unknown>>(
       loading: docResult.loading,
       error: docResult.error,
       isSyncing: inflightOperations > 0,
+      realtimeStatus,
     }),
     [
       docResult.data,
@@ -64,6 +77,7 @@ export function useSyncWiser<TShape extends Record<string, unknown>>(
       docResult.loading,
       docResult.error,
       inflightOperations,
+      realtimeStatus,
       sync,
     ]
   );
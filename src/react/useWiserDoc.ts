@@ -32,6 +32,7 @@ export function useWiserDoc<TShape extends Record<string, unknown>>(
 
   useEffect(() => {
     let cancelled = false;
+    let release: (() => void) | null = null;
     setLoading(true);
     setError(null);
 
@@ -39,6 +40,8 @@ export function useWiserDoc<TShape extends Record<string, unknown>>(
       .getDocument(docId, model)
       .then((loaded) => {
         if (cancelled) return;
+        // Mounted documents must stay hydrated while the LRU cache churns.
+        release = loaded.pin();
         setHandle(loaded);
         setLoading(false);
       })
@@ -50,6 +53,7 @@ export function useWiserDoc<TShape extends Record<string, unknown>>(
 
     return () => {
       cancelled = true;
+      release?.();
     };
   }, [docId, model, runtime]);
 
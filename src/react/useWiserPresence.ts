@@ -0,0 +1,97 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { Awareness } from 'y-protocols/awareness';
+import { useWiserRuntime } from './context';
+
+export type WiserPresenceState = Record<string, unknown>;
+
+export type WiserPresencePeer<TState extends WiserPresenceState> = {
+  clientId: number;
+  state: TState;
+};
+
+export type UseWiserPresenceResult<TState extends WiserPresenceState> = {
+  /**
+   * Remote peers currently present on the document (excluding this client).
+   */
+  peers: WiserPresencePeer<TState>[];
+  localState: TState | null;
+  setLocalState: (state: TState | null) => void;
+  setLocalStateField: <TKey extends keyof TState & string>(
+    field: TKey,
+    value: TState[TKey]
+  ) => void;
+};
+
+function readPeers<TState extends WiserPresenceState>(
+  awareness: Awareness | null
+): WiserPresencePeer<TState>[] {
+  if (!awareness) return [];
+  const peers: WiserPresencePeer<TState>[] = [];
+  awareness.getStates().forEach((state, clientId) => {
+    if (clientId === awareness.clientID) return;
+    peers.push({ clientId, state: state as TState });
+  });
+  return peers;
+}
+
+/**
+ * Presence for a document loaded elsewhere (e.g. via `useWiserDoc`). Stays empty
+ * until the document is hydrated and follows it across evictions and reloads.
+ */
+export function useWiserPresence<
+  TState extends WiserPresenceState = WiserPresenceState
+>(docId: string): UseWiserPresenceResult<TState> {
+  const runtime = useWiserRuntime();
+  const [awareness, setAwareness] = useState<Awareness | null>(() =>
+    runtime.getAwareness(docId)
+  );
+  const [, forceRender] = useState(0);
+
+  useEffect(() => {
+    setAwareness(runtime.getAwareness(docId));
+    return runtime.onDocumentLoaded((loadedId) => {
+      if (loadedId === docId) {
+        setAwareness(runtime.getAwareness(docId));
+      }
+    });
+  }, [docId, runtime]);
+
+  useEffect(() => {
+    if (!awareness) return;
+
+    const rerender = () => {
+      forceRender((x) => x + 1);
+    };
+    const handleDestroy = () => {
+      setAwareness(null);
+    };
+
+    awareness.on('change', rerender);
+    awareness.on('destroy', handleDestroy);
+    return () => {
+      awareness.off('change', rerender);
+      awareness.off('destroy', handleDestroy);
+    };
+  }, [awareness]);
+
+  const setLocalState = useCallback(
+    (state: TState | null) => {
+      awareness?.setLocalState(state);
+    },
+    [awareness]
+  );
+
+  const setLocalStateField = useCallback(
+    <TKey extends keyof TState & string>(field: TKey, value: TState[TKey]) => {
+      awareness?.setLocalStateField(field, value);
+    },
+    [awareness]
+  );
+
+  return {
+    peers: readPeers<TState>(awareness),
+    localState: (awareness?.getLocalState() as TState | null) ?? null,
+    setLocalState,
+    setLocalStateField,
+  };
+}
@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useState } from 'react';
+import type * as Y from 'yjs';
+import { useWiserRuntime } from './context';
+
+export type UseWiserUndoResult = {
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+};
+
+/**
+ * Undo/redo controls for a document loaded elsewhere (e.g. via `useWiserDoc`).
+ * Re-renders whenever the undo or redo stack changes.
+ */
+export function useWiserUndo(docId: string): UseWiserUndoResult {
+  const runtime = useWiserRuntime();
+  const [manager, setManager] = useState<Y.UndoManager | null>(() =>
+    runtime.getUndoManager(docId)
+  );
+  const [, forceRender] = useState(0);
+
+  useEffect(() => {
+    setManager(runtime.getUndoManager(docId));
+    return runtime.onDocumentLoaded((loadedId) => {
+      if (loadedId === docId) {
+        setManager(runtime.getUndoManager(docId));
+      }
+    });
+  }, [docId, runtime]);
+
+  useEffect(() => {
+    if (!manager) return;
+
+    const rerender = () => {
+      forceRender((x) => x + 1);
+    };
+
+    manager.on('stack-item-added', rerender);
+    manager.on('stack-item-popped', rerender);
+    manager.on('stack-cleared', rerender);
+    return () => {
+      manager.off('stack-item-added', rerender);
+      manager.off('stack-item-popped', rerender);
+      manager.off('stack-cleared', rerender);
+    };
+  }, [manager]);
+
+  // Resolve the manager at call time so a reloaded document is never undone
+  // through the manager of its evicted predecessor.
+  const undo = useCallback(() => {
+    runtime.getUndoManager(docId)?.undo();
+  }, [docId, runtime]);
+
+  const redo = useCallback(() => {
+    runtime.getUndoManager(docId)?.redo();
+  }, [docId, runtime]);
+
+  return {
+    undo,
+    redo,
+    canUndo: manager?.canUndo() ?? false,
+    canRedo: manager?.canRedo() ?? false,
+  };
+}
@@ -0,0 +1,324 @@
+import type {
+  RealtimeAdapter,
+  RealtimeSubscribeContext,
+  RealtimeUpdateMeta,
+} from '../types';
+import { toClonedBytes } from './clonedBytes';
+import { createRandomId } from './randomId';
+
+type BroadcastChannelLike = {
+  onmessage: ((event: { data: unknown }) => void) | null;
+  postMessage(message: unknown): void;
+  close(): void;
+};
+
+type BroadcastChannelConstructor = new (name: string) => BroadcastChannelLike;
+
+type BroadcastMessage =
+  | {
+      type: 'update' | 'awareness';
+      sender: string;
+      docId: string;
+      update: Uint8Array;
+      meta?: RealtimeUpdateMeta;
+    }
+  | {
+      type: 'sync-step1';
+      sender: string;
+      docId: string;
+      stateVector: Uint8Array;
+    }
+  | {
+      type: 'sync-step2';
+      sender: string;
+      target: string;
+      docId: string;
+      update: Uint8Array;
+      // Present when the replying tab wants the requester's missing updates
+      // in return; the answer to it carries no state vector.
+      stateVector?: Uint8Array;
+    };
+
+type UpdateListener = (update: Uint8Array, meta?: RealtimeUpdateMeta) => void;
+
+type ChannelDocumentState = {
+  key: string;
+  listeners: Set<UpdateListener>;
+  awarenessListeners: Set<(update: Uint8Array) => void>;
+  context: RealtimeSubscribeContext | null;
+};
+
+export type BroadcastChannelRealtimeAdapterOptions = {
+  /**
+   * Name of the `BroadcastChannel` shared by the tabs. Tabs only see each other's
+   * updates when they use the same name, so include the user or tenant in it.
+   */
+  channelName: string;
+  /**
+   * `BroadcastChannel` implementation. Defaults to `globalThis.BroadcastChannel`.
+   */
+  BroadcastChannel?: BroadcastChannelConstructor;
+  /**
+   * Map the logical document id to the identifier used in channel messages.
+   */
+  documentIdentifier?: (docId: string) => string;
+  /**
+   * Hook for surfacing adapter errors.
+   */
+  onError?: (error: unknown) => void;
+};
+
+export type BroadcastChannelRealtimeAdapter = RealtimeAdapter & {
+  /**
+   * Close the channel and drop every listener.
+   */
+  dispose(): void;
+};
+
+export function createBroadcastChannelRealtimeAdapter(
+  options: BroadcastChannelRealtimeAdapterOptions
+): BroadcastChannelRealtimeAdapter {
+  const {
+    channelName,
+    BroadcastChannel: BroadcastChannelImpl = (globalThis as typeof globalThis & {
+      BroadcastChannel?: BroadcastChannelConstructor;
+    }).BroadcastChannel,
+    documentIdentifier = (docId: string) => docId,
+    onError,
+  } = options;
+
+  if (!BroadcastChannelImpl) {
+    throw new Error(
+      '[sync-wiser][broadcast-channel] A BroadcastChannel implementation must be provided (global BroadcastChannel is not available).'
+    );
+  }
+
+  const tabId = createRandomId();
+  const docStates = new Map<string, ChannelDocumentState>();
+  const keyToDocId = new Map<string, string>();
+  let channel: BroadcastChannelLike | null = null;
+  let disposed = false;
+
+  const reportError = (error: unknown) => {
+    if (onError) {
+      onError(error);
+      return;
+    }
+    console.error('[sync-wiser][broadcast-channel]', error);
+  };
+
+  const post = (message: BroadcastMessage) => {
+    ensureChannel().postMessage(message);
+  };
+
+  const deliver = (
+    listeners: Set<UpdateListener>,
+    update: Uint8Array,
+    meta?: RealtimeUpdateMeta
+  ) => {
+    for (const listener of listeners) {
+      listener(update.slice(), meta);
+    }
+  };
+
+  // Another tab announced its state vector: send back what it is missing
+  // together with ours, so it can return the updates only it has.
+  const answerStep1 = async (
+    state: ChannelDocumentState,
+    message: Extract<BroadcastMessage, { type: 'sync-step1' }>
+  ) => {
+    const context = state.context;
+    if (!context) return;
+    const update = await context.encodeStateAsUpdate(
+      toBytes(message.stateVector)
+    );
+    post({
+      type: 'sync-step2',
+      sender: tabId,
+      target: message.sender,
+      docId: state.key,
+      update,
+      stateVector: context.getStateVector(),
+    });
+  };
+
+  const answerStep2 = async (
+    state: ChannelDocumentState,
+    message: Extract<BroadcastMessage, { type: 'sync-step2' }>
+  ) => {
+    deliver(state.listeners, toBytes(message.update));
+    const context = state.context;
+    if (!message.stateVector || !context) return;
+    post({
+      type: 'sync-step2',
+      sender: tabId,
+      target: message.sender,
+      docId: state.key,
+      update: await context.encodeStateAsUpdate(toBytes(message.stateVector)),
+    });
+  };
+
+  const handleMessage = (data: unknown) => {
+    const message = data as BroadcastMessage | null;
+    if (!message || message.sender === tabId) return;
+    if (message.type === 'sync-step2' && message.target !== tabId) return;
+    const docId = keyToDocId.get(message.docId);
+    const state = docId ? docStates.get(docId) : undefined;
+    if (!state) return;
+
+    switch (message.type) {
+      case 'update':
+        deliver(state.listeners, toBytes(message.update), message.meta);
+        break;
+      case 'awareness':
+        deliver(state.awarenessListeners, toBytes(message.update));
+        break;
+      case 'sync-step1':
+        answerStep1(state, message).catch(reportError);
+        break;
+      case 'sync-step2':
+        answerStep2(state, message).catch(reportError);
+        break;
+      default:
+        break;
+    }
+  };
+
+  const ensureChannel = (): BroadcastChannelLike => {
+    if (disposed) {
+      throw new Error(
+        '[sync-wiser][broadcast-channel] Adapter has been disposed.'
+      );
+    }
+    if (!channel) {
+      const opened = new BroadcastChannelImpl(channelName);
+      opened.onmessage = (event) => {
+        try {
+          handleMessage(event.data);
+        } catch (error) {
+          reportError(error);
+        }
+      };
+      channel = opened;
+    }
+    return channel;
+  };
+
+  const closeChannel = () => {
+    channel?.close();
+    channel = null;
+  };
+
+  // Document updates and awareness share one registration; the channel closes
+  // once no tab-local listener of either kind remains.
+  const acquireDocument = (docId: string): ChannelDocumentState => {
+    ensureChannel();
+    let state = docStates.get(docId);
+    if (!state) {
+      const key = documentIdentifier(docId);
+      state = {
+        key,
+        listeners: new Set(),
+        awarenessListeners: new Set(),
+        context: null,
+      };
+      docStates.set(docId, state);
+      keyToDocId.set(key, docId);
+    }
+    return state;
+  };
+
+  const releaseDocument = (docId: string) => {
+    const state = docStates.get(docId);
+    if (
+      !state ||
+      state.listeners.size > 0 ||
+      state.awarenessListeners.size > 0
+    ) {
+      return;
+    }
+    docStates.delete(docId);
+    keyToDocId.delete(state.key);
+    if (docStates.size === 0) {
+      closeChannel();
+    }
+  };
+
+  const subscribe = (
+    docId: string,
+    onUpdate: UpdateListener,
+    context?: RealtimeSubscribeContext
+  ): (() => void) => {
+    const state = acquireDocument(docId);
+    state.listeners.add(onUpdate);
+    if (context) {
+      state.context = context;
+      // Tabs that already hold the document reply with what this one lacks.
+      post({
+        type: 'sync-step1',
+        sender: tabId,
+        docId: state.key,
+        stateVector: context.getStateVector(),
+      });
+    }
+
+    return () => {
+      state.listeners.delete(onUpdate);
+      if (state.listeners.size === 0) {
+        state.context = null;
+      }
+      releaseDocument(docId);
+    };
+  };
+
+  const subscribeAwareness = (
+    docId: string,
+    onUpdate: (update: Uint8Array) => void
+  ): (() => void) => {
+    const state = acquireDocument(docId);
+    state.awarenessListeners.add(onUpdate);
+
+    return () => {
+      state.awarenessListeners.delete(onUpdate);
+      releaseDocument(docId);
+    };
+  };
+
+  const send = async (
+    docId: string,
+    type: 'update' | 'awareness',
+    update: Uint8Array,
+    meta?: RealtimeUpdateMeta
+  ) => {
+    const key = docStates.get(docId)?.key ?? documentIdentifier(docId);
+    try {
+      post({ type, sender: tabId, docId: key, update, meta });
+    } catch (error) {
+      reportError(error);
+      throw error;
+    } finally {
+      if (docStates.size === 0) {
+        closeChannel();
+      }
+    }
+  };
+
+  const dispose = () => {
+    disposed = true;
+    docStates.clear();
+    keyToDocId.clear();
+    closeChannel();
+  };
+
+  return {
+    subscribe,
+    publish: (docId, update, meta) => send(docId, 'update', update, meta),
+    subscribeAwareness,
+    publishAwareness: (docId, update) => send(docId, 'awareness', update),
+    dispose,
+  };
+}
+
+function toBytes(value: unknown): Uint8Array {
+  return toClonedBytes(value, 'broadcast-channel');
+}
@@ -0,0 +1,15 @@
+// Structured clones may come from another realm, where `instanceof Uint8Array`
+// does not hold, so copy any byte view into a local array.
+export function toClonedBytes(value: unknown, area: string): Uint8Array {
+  if (ArrayBuffer.isView(value)) {
+    return new Uint8Array(
+      value.buffer.slice(value.byteOffset, value.byteOffset + value.byteLength)
+    );
+  }
+  if (value instanceof ArrayBuffer) {
+    return new Uint8Array(value.slice(0));
+  }
+  throw new TypeError(
+    `[sync-wiser][${area}] Received a message without a binary payload.`
+  );
+}
@@ -0,0 +1,325 @@
+import type {
+  RealtimeAdapter,
+  RealtimeConnectionState,
+  RealtimeSubscribeContext,
+  RealtimeUpdateMeta,
+} from '../types';
+import { crc32 } from '../codec/checksumCodec';
+
+export type RealtimeTransport =
+  | RealtimeAdapter
+  | { name: string; adapter: RealtimeAdapter };
+
+export type RealtimeTransportHealth = {
+  name: string;
+  /**
+   * `false` after the transport's last subscribe or publish failed; `true` again
+   * once it publishes or delivers an update successfully.
+   */
+  healthy: boolean;
+  consecutiveFailures: number;
+  lastError?: unknown;
+  lastActivityAt?: number;
+};
+
+export type CombineRealtimeAdaptersOptions = {
+  /**
+   * Milliseconds during which an inbound payload identical to one already delivered
+   * for the same document is dropped. Defaults to `10000`.
+   */
+  dedupeWindow?: number;
+  /**
+   * Called whenever a transport's health changes.
+   */
+  onHealthChange?: (health: RealtimeTransportHealth) => void;
+  /**
+   * Hook for surfacing transport errors.
+   */
+  onError?: (error: unknown) => void;
+};
+
+export type CombinedRealtimeAdapter = RealtimeAdapter & {
+  /**
+   * Health of every transport, in the order they were given.
+   */
+  getHealth(): RealtimeTransportHealth[];
+  /**
+   * Dispose every transport that supports it.
+   */
+  dispose(): void;
+};
+
+type TransportState = {
+  adapter: RealtimeAdapter;
+  health: RealtimeTransportHealth;
+};
+
+type UpdateListener = (update: Uint8Array, meta?: RealtimeUpdateMeta) => void;
+
+type SeenPayload = {
+  key: string;
+  bytes: Uint8Array;
+  expiresAt: number;
+};
+
+const DEFAULT_DEDUPE_WINDOW = 10_000;
+
+// The combined connection is as good as its best transport.
+const CONNECTION_STATE_RANK: RealtimeConnectionState[] = [
+  'connected',
+  'reconnecting',
+  'connecting',
+  'disconnected',
+];
+
+/**
+ * Fans one realtime channel out over several transports, e.g. a
+ * `BroadcastChannel` for other tabs plus SignalR for other devices. Updates are
+ * published on every transport and a payload that arrives on more than one of
+ * them is delivered once. A failing transport is reported and skipped; the
+ * others keep working.
+ */
+export function combineRealtimeAdapters(
+  transports: RealtimeTransport[],
+  options: CombineRealtimeAdaptersOptions = {}
+): CombinedRealtimeAdapter {
+  const {
+    dedupeWindow = DEFAULT_DEDUPE_WINDOW,
+    onHealthChange,
+    onError,
+  } = options;
+
+  if (transports.length === 0) {
+    throw new Error(
+      '[sync-wiser][realtime] combineRealtimeAdapters needs at least one transport.'
+    );
+  }
+
+  const states: TransportState[] = transports.map((transport, index) => {
+    const named = 'adapter' in transport;
+    return {
+      adapter: named ? transport.adapter : transport,
+      health: {
+        name: named ? transport.name : `transport-${index}`,
+        healthy: true,
+        consecutiveFailures: 0,
+      },
+    };
+  });
+
+  const reportError = (error: unknown) => {
+    if (onError) {
+      onError(error);
+      return;
+    }
+    console.error('[sync-wiser][realtime]', error);
+  };
+
+  const markSuccess = (state: TransportState) => {
+    const wasHealthy = state.health.healthy;
+    state.health = {
+      ...state.health,
+      healthy: true,
+      consecutiveFailures: 0,
+      lastActivityAt: Date.now(),
+    };
+    if (!wasHealthy) {
+      onHealthChange?.({ ...state.health });
+    }
+  };
+
+  const markFailure = (state: TransportState, error: unknown) => {
+    state.health = {
+      ...state.health,
+      healthy: false,
+      consecutiveFailures: state.health.consecutiveFailures + 1,
+      lastError: error,
+    };
+    onHealthChange?.({ ...state.health });
+    reportError(error);
+  };
+
+  // Yjs updates are idempotent, so a duplicate is only wasted work; dropping
+  // it saves the decode and apply. Payloads are compared byte for byte, the
+  // checksum only narrows the candidates.
+  const createDeduper = () => {
+    const order: SeenPayload[] = [];
+    const byKey = new Map<string, SeenPayload[]>();
+    return (update: Uint8Array): boolean => {
+      const time = Date.now();
+      while (order.length > 0 && order[0]!.expiresAt <= time) {
+        const expired = order.shift()!;
+        const remaining = byKey
+          .get(expired.key)
+          ?.filter((entry) => entry !== expired);
+        if (remaining && remaining.length > 0) {
+          byKey.set(expired.key, remaining);
+        } else {
+          byKey.delete(expired.key);
+        }
+      }
+      const key = `${update.byteLength}:${crc32(update)}`;
+      const candidates = byKey.get(key) ?? [];
+      if (candidates.some((entry) => equalBytes(entry.bytes, update))) {
+        return true;
+      }
+      const entry = { key, bytes: update.slice(), expiresAt: time + dedupeWindow };
+      order.push(entry);
+      byKey.set(key, [...candidates, entry]);
+      return false;
+    };
+  };
+
+  const subscribeAll = (
+    select: (
+      adapter: RealtimeAdapter
+    ) => ((onUpdate: UpdateListener) => () => void) | undefined,
+    onUpdate: UpdateListener
+  ): (() => void) => {
+    const isDuplicate = createDeduper();
+    const unsubscribers: Array<() => void> = [];
+    for (const state of states) {
+      const subscribeTo = select(state.adapter);
+      if (!subscribeTo) continue;
+      try {
+        unsubscribers.push(
+          subscribeTo((update, meta) => {
+            markSuccess(state);
+            if (!isDuplicate(update)) {
+              onUpdate(update, meta);
+            }
+          })
+        );
+      } catch (error) {
+        markFailure(state, error);
+      }
+    }
+    return () => {
+      for (const unsubscribe of unsubscribers.splice(0)) {
+        try {
+          unsubscribe();
+        } catch (error) {
+          reportError(error);
+        }
+      }
+    };
+  };
+
+  const publishAll = async (
+    select: (
+      adapter: RealtimeAdapter
+    ) => ((update: Uint8Array) => Promise<void>) | undefined,
+    update: Uint8Array
+  ) => {
+    const targets = states.flatMap((state) => {
+      const publishTo = select(state.adapter);
+      return publishTo ? [{ state, publishTo }] : [];
+    });
+    const outcomes = await Promise.allSettled(
+      targets.map(async ({ state, publishTo }) => {
+        try {
+          await publishTo(update.slice());
+          markSuccess(state);
+        } catch (error) {
+          markFailure(state, error);
+          throw error;
+        }
+      })
+    );
+    const errors = outcomes.flatMap((outcome) =>
+      outcome.status === 'rejected' ? [outcome.reason] : []
+    );
+    if (targets.length > 0 && errors.length === targets.length) {
+      throw new Error('[sync-wiser][realtime] Every transport failed to publish.', {
+        cause: errors,
+      });
+    }
+  };
+
+  const supportsAwareness = states.some(
+    ({ adapter }) => adapter.publishAwareness && adapter.subscribeAwareness
+  );
+
+  const combined: CombinedRealtimeAdapter = {
+    subscribe(
+      docId: string,
+      onUpdate: UpdateListener,
+      context?: RealtimeSubscribeContext
+    ) {
+      return subscribeAll(
+        (adapter) => (listener) => adapter.subscribe(docId, listener, context),
+        onUpdate
+      );
+    },
+    publish(docId: string, update: Uint8Array, meta?: RealtimeUpdateMeta) {
+      return publishAll(
+        (adapter) => (payload) => adapter.publish(docId, payload, meta),
+        update
+      );
+    },
+    getHealth() {
+      return states.map(({ health }) => ({ ...health }));
+    },
+    dispose() {
+      for (const { adapter } of states) {
+        (adapter as { dispose?: () => void }).dispose?.();
+      }
+    },
+  };
+
+  const reporting = states.filter(({ adapter }) => adapter.onStatusChange);
+  if (reporting.length > 0) {
+    combined.onStatusChange = (listener) => {
+      const current = new Map<TransportState, RealtimeConnectionState>();
+      let last: RealtimeConnectionState | null = null;
+      const notify = () => {
+        if (current.size < reporting.length) return;
+        const values = Array.from(current.values());
+        const next = CONNECTION_STATE_RANK.find((state) =>
+          values.includes(state)
+        )!;
+        if (next === last) return;
+        last = next;
+        listener(next);
+      };
+      const unsubscribers = reporting.map((state) =>
+        state.adapter.onStatusChange!((status) => {
+          current.set(state, status);
+          notify();
+        })
+      );
+      return () => {
+        for (const unsubscribe of unsubscribers) unsubscribe();
+      };
+    };
+  }
+
+  if (supportsAwareness) {
+    combined.subscribeAwareness = (docId, onUpdate) =>
+      subscribeAll(
+        (adapter) =>
+          adapter.subscribeAwareness
+            ? (listener) => adapter.subscribeAwareness!(docId, listener)
+            : undefined,
+        onUpdate
+      );
+    combined.publishAwareness = (docId, update) =>
+      publishAll(
+        (adapter) =>
+          adapter.publishAwareness
+            ? (payload) => adapter.publishAwareness!(docId, payload)
+            : undefined,
+        update
+      );
+  }
+
+  return combined;
+}
+
+function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.byteLength !== b.byteLength) return false;
+  for (let i = 0; i < a.byteLength; i += 1) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+}
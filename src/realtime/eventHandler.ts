@@ -0,0 +1,4 @@
+// Taken from a method signature so parameters are compared bivariantly: real
+// sockets and event sources type their handlers with richer events than the
+// fields the adapters read.
+export type EventHandler<TEvent> = { handle(event: TEvent): void }['handle'];
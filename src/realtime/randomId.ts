@@ -0,0 +1,9 @@
+export function createRandomId(): string {
+  const cryptoImpl = (globalThis as typeof globalThis & {
+    crypto?: { randomUUID?: () => string };
+  }).crypto;
+  if (cryptoImpl?.randomUUID) {
+    return cryptoImpl.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
@@ -5,13 +5,52 @@ import {
   LogLevel,
   type IHttpConnectionOptions,
 } from '@microsoft/signalr';
-import type { RealtimeAdapter } from '../types';
+import type {
+  RealtimeAdapter,
+  RealtimeConnectionState,
+  RealtimeSubscribeContext,
+  RealtimeUpdateMeta,
+} from '../types';
+import { isRealtimeUpdateMeta } from './updateMeta';
+
+type UpdateListener = (update: Uint8Array, meta?: RealtimeUpdateMeta) => void;
 
 type SignalRDocumentState = {
-  listeners: Set<(update: Uint8Array) => void>;
+  listeners: Set<UpdateListener>;
+  awarenessListeners: Set<(update: Uint8Array) => void>;
+  contexts: Set<RealtimeSubscribeContext>;
   key: string;
   joined: boolean;
   joinPromise: Promise<HubConnection> | null;
+  status: SignalRDocumentStatus;
+};
+
+export type SignalRDocumentStatus = {
+  /**
+   * `joining` until `joinDocumentMethod` succeeds (or right away without one),
+   * `failed` when the join was rejected or the connection closed.
+   */
+  state: 'joining' | 'joined' | 'failed';
+  error?: unknown;
+};
+
+export type SignalRRealtimeAdapter = RealtimeAdapter & {
+  getState(): RealtimeConnectionState;
+  /**
+   * Called with the current state right away and again on every change.
+   */
+  onStateChange(listener: (state: RealtimeConnectionState) => void): () => void;
+  /**
+   * Join status of a subscribed document, or `null` when nothing subscribes to it.
+   */
+  getDocumentStatus(docId: string): SignalRDocumentStatus | null;
+  onDocumentStatusChange(
+    listener: (docId: string, status: SignalRDocumentStatus) => void
+  ): () => void;
+  /**
+   * Stop the hub connection and drop every subscription.
+   */
+  dispose(): Promise<void>;
 };
 
 export type SignalRRealtimeAdapterOptions = {
@@ -28,6 +67,23 @@ export type SignalRRealtimeAdapterOptions = {
    * The hub is expected to emit `(docId: string, payload: unknown)`.
    */
   receiveEvent?: string;
+  /**
+   * Pass the publisher's `{ clientId, seq }` as a third argument to `publishMethod`.
+   * The hub relays it as the third argument of `receiveEvent`, which lets the
+   * runtime drop its own echoes and pull when a peer's update went missing.
+   * Defaults to `false`, for hubs whose methods take two arguments.
+   */
+  sendUpdateMeta?: boolean;
+  /**
+   * Override the method invoked when publishing awareness (presence) updates.
+   * Defaults to `SendAwarenessUpdate`.
+   */
+  publishAwarenessMethod?: string;
+  /**
+   * Event name emitted by the hub when an awareness update arrives. Defaults to `AwarenessUpdate`.
+   * The hub is expected to emit `(docId: string, payload: unknown)` to the other group members.
+   */
+  receiveAwarenessEvent?: string;
   /**
    * Hub method invoked to subscribe to a document (often used to join a SignalR group).
    * Defaults to `JoinDocument`. Set to `null` to disable explicit joins.
@@ -88,16 +144,21 @@ export type SignalRRealtimeAdapterOptions = {
 
 const DEFAULT_PUBLISH_METHOD = 'SendDocumentUpdate';
 const DEFAULT_RECEIVE_EVENT = 'DocumentUpdate';
+const DEFAULT_PUBLISH_AWARENESS_METHOD = 'SendAwarenessUpdate';
+const DEFAULT_RECEIVE_AWARENESS_EVENT = 'AwarenessUpdate';
 const DEFAULT_JOIN_METHOD = 'JoinDocument';
 const DEFAULT_LEAVE_METHOD = 'LeaveDocument';
 
 export function createSignalRRealtimeAdapter(
   options: SignalRRealtimeAdapterOptions
-): RealtimeAdapter {
+): SignalRRealtimeAdapter {
   const {
     url,
     publishMethod = DEFAULT_PUBLISH_METHOD,
     receiveEvent = DEFAULT_RECEIVE_EVENT,
+    sendUpdateMeta = false,
+    publishAwarenessMethod = DEFAULT_PUBLISH_AWARENESS_METHOD,
+    receiveAwarenessEvent = DEFAULT_RECEIVE_AWARENESS_EVENT,
     joinDocumentMethod = DEFAULT_JOIN_METHOD,
     leaveDocumentMethod = DEFAULT_LEAVE_METHOD,
     documentIdentifier = (docId: string) => docId,
@@ -116,8 +177,14 @@ export function createSignalRRealtimeAdapter(
   let connection: HubConnection | null = null;
   let connectionPromise: Promise<HubConnection> | null = null;
   let inboundRegistered = false;
+  let connectionState: RealtimeConnectionState = 'disconnected';
+  let disposed = false;
   const docStates = new Map<string, SignalRDocumentState>();
   const keyToDocId = new Map<string, string>();
+  const stateListeners = new Set<(state: RealtimeConnectionState) => void>();
+  const documentStatusListeners = new Set<
+    (docId: string, status: SignalRDocumentStatus) => void
+  >();
 
   const reportError = (error: unknown) => {
     if (onError) {
@@ -127,7 +194,41 @@ export function createSignalRRealtimeAdapter(
     console.error('[sync-wiser][signalr]', error);
   };
 
+  const setConnectionState = (next: RealtimeConnectionState) => {
+    if (connectionState === next) return;
+    connectionState = next;
+    for (const listener of Array.from(stateListeners)) {
+      try {
+        listener(next);
+      } catch (error) {
+        reportError(error);
+      }
+    }
+  };
+
+  const setDocumentStatus = (
+    docId: string,
+    docState: SignalRDocumentState,
+    status: SignalRDocumentStatus
+  ) => {
+    docState.status = status;
+    // Documents released in the meantime have no one left to tell.
+    if (docStates.get(docId) !== docState) return;
+    for (const listener of Array.from(documentStatusListeners)) {
+      try {
+        listener(docId, { ...status });
+      } catch (error) {
+        reportError(error);
+      }
+    }
+  };
+
   const ensureConnection = (): Promise<HubConnection> => {
+    if (disposed) {
+      return Promise.reject(
+        new Error('[sync-wiser][signalr] Adapter has been disposed.')
+      );
+    }
     if (connection && connection.state === HubConnectionState.Connected) {
       return Promise.resolve(connection);
     }
@@ -138,12 +239,15 @@ export function createSignalRRealtimeAdapter(
           connection = buildConnection();
         }
         if (connection.state !== HubConnectionState.Connected) {
+          setConnectionState('connecting');
           await connection.start();
         }
         registerInboundHandlers(connection);
+        setConnectionState('connected');
         return connection;
       })().catch((error) => {
         connectionPromise = null;
+        setConnectionState('disconnected');
         reportError(error);
         throw error;
       });
@@ -193,21 +297,38 @@ export function createSignalRRealtimeAdapter(
 
     const built = builder.build();
 
-    if (typeof built.onreconnected === 'function' && joinDocumentMethod) {
+    if (typeof built.onreconnecting === 'function') {
+      built.onreconnecting(() => {
+        setConnectionState('reconnecting');
+      });
+    }
+
+    // Updates sent while the connection was down are gone, so once the
+    // groups are rejoined the runtime pulls what it missed.
+    if (typeof built.onreconnected === 'function') {
       built.onreconnected(() => {
-        for (const state of docStates.values()) {
+        setConnectionState('connected');
+        for (const [docId, state] of docStates) {
+          if (!joinDocumentMethod) {
+            resync(state);
+            continue;
+          }
           state.joined = false;
+          setDocumentStatus(docId, state, { state: 'joining' });
           state.joinPromise = ensureConnection()
             .then((activeConnection) =>
               activeConnection.invoke(joinDocumentMethod, state.key).then(() => activeConnection)
             )
             .then((activeConnection) => {
               state.joined = true;
+              setDocumentStatus(docId, state, { state: 'joined' });
+              resync(state);
               return activeConnection;
             })
             .catch((error) => {
               reportError(error);
               state.joinPromise = null;
+              setDocumentStatus(docId, state, { state: 'failed', error });
               return built;
             });
         }
@@ -215,141 +336,285 @@ export function createSignalRRealtimeAdapter(
     }
 
     if (typeof built.onclose === 'function') {
-      built.onclose(() => {
+      built.onclose((error?: Error) => {
         connection = null;
         connectionPromise = null;
         inboundRegistered = false;
+        setConnectionState('disconnected');
+        // The next subscription on a document joins it again on a new connection.
+        for (const [docId, state] of docStates) {
+          state.joined = false;
+          state.joinPromise = null;
+          setDocumentStatus(docId, state, { state: 'failed', error });
+        }
       });
     }
 
     return built;
   };
 
-  const registerInboundHandlers = (activeConnection: HubConnection) => {
-    if (inboundRegistered) return;
-
-    activeConnection.on(receiveEvent, (docKey: unknown, payload: unknown) => {
+  const resync = (state: SignalRDocumentState) => {
+    for (const context of state.contexts) {
       try {
-        const key = String(docKey);
-        const docId = keyToDocId.get(key);
-        if (!docId) {
-          return;
-        }
-        const state = docStates.get(docId);
-        if (!state || state.listeners.size === 0) {
-          return;
-        }
-        const bytes = decodeUpdate(payload);
-        for (const listener of state.listeners) {
-          listener(bytes.slice());
-        }
+        context.resync?.();
       } catch (error) {
         reportError(error);
       }
-    });
+    }
+  };
+
+  const dispatchInbound = (
+    docKey: unknown,
+    payload: unknown,
+    selectListeners: (state: SignalRDocumentState) => Set<UpdateListener>,
+    meta?: unknown
+  ) => {
+    try {
+      const key = String(docKey);
+      const docId = keyToDocId.get(key);
+      if (!docId) {
+        return;
+      }
+      const state = docStates.get(docId);
+      if (!state) {
+        return;
+      }
+      const listeners = selectListeners(state);
+      if (listeners.size === 0) {
+        return;
+      }
+      const bytes = decodeUpdate(payload);
+      const updateMeta = isRealtimeUpdateMeta(meta) ? meta : undefined;
+      for (const listener of listeners) {
+        listener(bytes.slice(), updateMeta);
+      }
+    } catch (error) {
+      reportError(error);
+    }
+  };
+
+  const registerInboundHandlers = (activeConnection: HubConnection) => {
+    if (inboundRegistered) return;
+
+    activeConnection.on(
+      receiveEvent,
+      (docKey: unknown, payload: unknown, meta?: unknown) =>
+        dispatchInbound(docKey, payload, (state) => state.listeners, meta)
+    );
+    activeConnection.on(
+      receiveAwarenessEvent,
+      (docKey: unknown, payload: unknown) =>
+        dispatchInbound(docKey, payload, (state) => state.awarenessListeners)
+    );
 
     inboundRegistered = true;
   };
 
-  const subscribe = (
-    docId: string,
-    onUpdate: (update: Uint8Array) => void
-  ): (() => void) => {
+  // Document updates and awareness share one group membership: join on the
+  // first listener of either kind and leave once both sets are empty.
+  const acquireDocument = (docId: string): SignalRDocumentState => {
     let state = docStates.get(docId);
     if (!state) {
       const key = documentIdentifier(docId);
       state = {
         listeners: new Set(),
+        awarenessListeners: new Set(),
+        contexts: new Set(),
         key,
         joined: false,
         joinPromise: null,
+        status: { state: 'joining' },
       };
       docStates.set(docId, state);
       keyToDocId.set(key, docId);
     }
 
-    state.listeners.add(onUpdate);
-
-    if (!state.joinPromise) {
-      state.joinPromise = ensureConnection()
+    const current = state;
+    if (!current.joinPromise) {
+      if (current.status.state !== 'joining') {
+        setDocumentStatus(docId, current, { state: 'joining' });
+      }
+      current.joinPromise = ensureConnection()
         .then((activeConnection) => {
-          if (!state) {
-            return activeConnection;
-          }
-
           registerInboundHandlers(activeConnection);
 
-          if (joinDocumentMethod && !state.joined) {
+          if (joinDocumentMethod && !current.joined) {
             return activeConnection
-              .invoke(joinDocumentMethod, state.key)
+              .invoke(joinDocumentMethod, current.key)
               .then(() => {
-                state.joined = true;
+                current.joined = true;
+                setDocumentStatus(docId, current, { state: 'joined' });
                 return activeConnection;
               });
           }
 
-          state.joined = true;
+          current.joined = true;
+          setDocumentStatus(docId, current, { state: 'joined' });
           return activeConnection;
         })
         .catch((error) => {
-          state!.joinPromise = null;
+          current.joinPromise = null;
+          setDocumentStatus(docId, current, { state: 'failed', error });
           reportError(error);
           throw error;
         });
     }
 
-    return () => {
-      const currentState = docStates.get(docId);
-      if (!currentState) {
-        return;
-      }
+    return current;
+  };
 
-      currentState.listeners.delete(onUpdate);
+  const releaseDocument = (docId: string) => {
+    const currentState = docStates.get(docId);
+    if (!currentState) {
+      return;
+    }
 
-      if (currentState.listeners.size > 0) {
-        return;
-      }
+    if (
+      currentState.listeners.size > 0 ||
+      currentState.awarenessListeners.size > 0
+    ) {
+      return;
+    }
 
-      docStates.delete(docId);
-      keyToDocId.delete(currentState.key);
+    docStates.delete(docId);
+    keyToDocId.delete(currentState.key);
 
-      const leave = async () => {
-        try {
-          await (currentState.joinPromise ?? ensureConnection());
-          const activeConnection = connection;
-          if (!activeConnection) return;
-          if (leaveDocumentMethod && currentState.joined) {
-            await activeConnection.invoke(leaveDocumentMethod, currentState.key);
-          }
-        } catch (error) {
-          reportError(error);
-        } finally {
-          currentState.joinPromise = null;
-          currentState.joined = false;
+    const leave = async () => {
+      try {
+        await (currentState.joinPromise ?? ensureConnection());
+        const activeConnection = connection;
+        if (!activeConnection) return;
+        if (leaveDocumentMethod && currentState.joined) {
+          await activeConnection.invoke(leaveDocumentMethod, currentState.key);
         }
-      };
+      } catch (error) {
+        reportError(error);
+      } finally {
+        currentState.joinPromise = null;
+        currentState.joined = false;
+      }
+    };
+
+    void leave();
+  };
+
+  const subscribe = (
+    docId: string,
+    onUpdate: UpdateListener,
+    context?: RealtimeSubscribeContext
+  ): (() => void) => {
+    const state = acquireDocument(docId);
+    state.listeners.add(onUpdate);
+    if (context) {
+      state.contexts.add(context);
+    }
+
+    return () => {
+      state.listeners.delete(onUpdate);
+      if (context) {
+        state.contexts.delete(context);
+      }
+      releaseDocument(docId);
+    };
+  };
 
-      void leave();
+  const subscribeAwareness = (
+    docId: string,
+    onUpdate: (update: Uint8Array) => void
+  ): (() => void) => {
+    const state = acquireDocument(docId);
+    state.awarenessListeners.add(onUpdate);
+
+    return () => {
+      state.awarenessListeners.delete(onUpdate);
+      releaseDocument(docId);
     };
   };
 
-  const publish = async (docId: string, update: Uint8Array): Promise<void> => {
+  const publish = async (
+    docId: string,
+    update: Uint8Array,
+    meta?: RealtimeUpdateMeta
+  ): Promise<void> => {
+    const key =
+      docStates.get(docId)?.key ?? documentIdentifier(docId);
+
+    const payload = encodeUpdate(update);
+    const args = sendUpdateMeta && meta ? [key, payload, meta] : [key, payload];
+    try {
+      const activeConnection = await ensureConnection();
+      await activeConnection.invoke(publishMethod, ...args);
+    } catch (error) {
+      reportError(error);
+      throw error;
+    }
+  };
+
+  const publishAwareness = async (
+    docId: string,
+    update: Uint8Array
+  ): Promise<void> => {
     const key =
       docStates.get(docId)?.key ?? documentIdentifier(docId);
 
     const payload = encodeUpdate(update);
     try {
       const activeConnection = await ensureConnection();
-      await activeConnection.invoke(publishMethod, key, payload);
+      await activeConnection.invoke(publishAwarenessMethod, key, payload);
     } catch (error) {
       reportError(error);
       throw error;
     }
   };
 
+  const onStateChange = (
+    listener: (state: RealtimeConnectionState) => void
+  ): (() => void) => {
+    stateListeners.add(listener);
+    listener(connectionState);
+    return () => {
+      stateListeners.delete(listener);
+    };
+  };
+
+  const dispose = async (): Promise<void> => {
+    if (disposed) return;
+    disposed = true;
+    const activeConnection = connection;
+    connection = null;
+    connectionPromise = null;
+    inboundRegistered = false;
+    docStates.clear();
+    keyToDocId.clear();
+    try {
+      await activeConnection?.stop();
+    } catch (error) {
+      reportError(error);
+    }
+    setConnectionState('disconnected');
+    stateListeners.clear();
+    documentStatusListeners.clear();
+  };
+
   return {
     subscribe,
     publish,
+    publishAwareness,
+    subscribeAwareness,
+    onStatusChange: onStateChange,
+    getState: () => connectionState,
+    onStateChange,
+    getDocumentStatus(docId) {
+      const status = docStates.get(docId)?.status;
+      return status ? { ...status } : null;
+    },
+    onDocumentStatusChange(listener) {
+      documentStatusListeners.add(listener);
+      return () => {
+        documentStatusListeners.delete(listener);
+      };
+    },
+    dispose,
   };
 }
 
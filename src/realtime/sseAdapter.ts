@@ -0,0 +1,466 @@
+import type {
+  RealtimeAdapter,
+  RealtimeSubscribeContext,
+  RealtimeUpdateMeta,
+} from '../types';
+import { decodeBase64, encodeBase64 } from '../sync/base64';
+import type { EventHandler } from './eventHandler';
+import { createRandomId } from './randomId';
+import { isRealtimeUpdateMeta } from './updateMeta';
+
+type SseMessageEvent = {
+  data: unknown;
+  lastEventId?: string;
+};
+
+type EventSourceLike = {
+  readonly readyState: number;
+  onopen: EventHandler<unknown> | null;
+  onerror: EventHandler<unknown> | null;
+  addEventListener(type: string, listener: (event: SseMessageEvent) => void): void;
+  close(): void;
+};
+
+type EventSourceConstructor = new (
+  url: string,
+  init?: { withCredentials?: boolean }
+) => EventSourceLike;
+
+type UpdateListener = (update: Uint8Array, meta?: RealtimeUpdateMeta) => void;
+
+type SseDocumentState = {
+  key: string;
+  listeners: Set<UpdateListener>;
+  awarenessListeners: Set<(update: Uint8Array) => void>;
+  contexts: Set<RealtimeSubscribeContext>;
+};
+
+type SseEventKind = 'update' | 'awareness';
+
+export type SseRealtimeAdapterOptions = {
+  /**
+   * `EventSource` endpoint shared by every document. The adapter appends
+   * `connectionId` (and `lastEventId` when reconnecting) as query parameters.
+   */
+  streamUrl: string;
+  /**
+   * Endpoint receiving `POST { connectionId, docId, event, update }` for
+   * document (`event: 'update'`) and awareness (`event: 'awareness'`) updates.
+   */
+  publishUrl: string;
+  /**
+   * Endpoint receiving `POST { connectionId, subscribe, unsubscribe }` whenever the set
+   * of documents on the stream changes. Defaults to `${streamUrl}/subscriptions`.
+   */
+  subscriptionUrl?: string;
+  /**
+   * `EventSource` implementation. Defaults to `globalThis.EventSource`; pass a polyfill in Node.
+   */
+  EventSource?: EventSourceConstructor;
+  fetch?: typeof fetch;
+  /**
+   * Headers sent with publish and subscription requests.
+   */
+  headers?: Record<string, string>;
+  /**
+   * Forwarded to the `EventSource` constructor.
+   */
+  withCredentials?: boolean;
+  /**
+   * Identifies this client's stream in subscription and publish requests, so the
+   * server can skip echoing a client's own updates. Defaults to a random id.
+   */
+  connectionId?: string;
+  /**
+   * Map the logical document id to the identifier used on the wire.
+   */
+  documentIdentifier?: (docId: string) => string;
+  /**
+   * SSE event name carrying document updates. Defaults to `update`.
+   */
+  updateEvent?: string;
+  /**
+   * SSE event name carrying awareness updates. Defaults to `awareness`.
+   */
+  awarenessEvent?: string;
+  /**
+   * Custom serializer for outbound updates. Defaults to base64 strings.
+   */
+  encodeUpdate?: (update: Uint8Array) => unknown;
+  /**
+   * Custom deserializer for inbound payloads. Defaults to base64/array coercion.
+   */
+  decodeUpdate?: (payload: unknown) => Uint8Array;
+  /**
+   * Initial delay before reopening a stream the browser gave up on, doubled per attempt.
+   * Defaults to `1000`.
+   */
+  reconnectDelay?: number;
+  /**
+   * Upper bound for the reconnect delay. Defaults to `30000`.
+   */
+  maxReconnectDelay?: number;
+  /**
+   * Hook for surfacing adapter errors.
+   */
+  onError?: (error: unknown) => void;
+};
+
+export type SseRealtimeAdapter = RealtimeAdapter & {
+  /**
+   * Close the stream and stop reconnecting.
+   */
+  dispose(): void;
+};
+
+const DEFAULT_UPDATE_EVENT = 'update';
+const DEFAULT_AWARENESS_EVENT = 'awareness';
+const DEFAULT_RECONNECT_DELAY = 1_000;
+const DEFAULT_MAX_RECONNECT_DELAY = 30_000;
+
+const EVENT_SOURCE_CLOSED = 2;
+
+export function createSseRealtimeAdapter(
+  options: SseRealtimeAdapterOptions
+): SseRealtimeAdapter {
+  const {
+    streamUrl,
+    publishUrl,
+    subscriptionUrl = `${streamUrl.replace(/\/+$/, '')}/subscriptions`,
+    EventSource: EventSourceImpl = (globalThis as typeof globalThis & {
+      EventSource?: EventSourceConstructor;
+    }).EventSource,
+    fetch: fetchImpl = typeof fetch === 'function' ? fetch : undefined,
+    headers: baseHeaders,
+    withCredentials,
+    connectionId = createRandomId(),
+    documentIdentifier = (docId: string) => docId,
+    updateEvent = DEFAULT_UPDATE_EVENT,
+    awarenessEvent = DEFAULT_AWARENESS_EVENT,
+    encodeUpdate = encodeBase64,
+    decodeUpdate = defaultDecodeUpdate,
+    reconnectDelay = DEFAULT_RECONNECT_DELAY,
+    maxReconnectDelay = DEFAULT_MAX_RECONNECT_DELAY,
+    onError,
+  } = options;
+
+  if (!EventSourceImpl) {
+    throw new Error(
+      '[sync-wiser][sse] An EventSource implementation must be provided (global EventSource is not available).'
+    );
+  }
+  if (!fetchImpl) {
+    throw new Error(
+      '[sync-wiser][sse] A fetch implementation must be provided (global fetch is not available).'
+    );
+  }
+
+  const headers = { ...(baseHeaders ?? {}) };
+  if (!('Content-Type' in headers)) {
+    headers['Content-Type'] = 'application/json';
+  }
+
+  const docStates = new Map<string, SseDocumentState>();
+  const keyToDocId = new Map<string, string>();
+  const pendingSubscribe = new Set<string>();
+  const pendingUnsubscribe = new Set<string>();
+  let source: EventSourceLike | null = null;
+  let open = false;
+  // Set once the stream has opened; every later open is a reconnect.
+  let openedBefore = false;
+  let lastEventId: string | null = null;
+  let reconnectAttempts = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let flushScheduled = false;
+  let subscriptionChain: Promise<void> = Promise.resolve();
+  let disposed = false;
+
+  const reportError = (error: unknown) => {
+    if (onError) {
+      onError(error);
+      return;
+    }
+    console.error('[sync-wiser][sse]', error);
+  };
+
+  const post = async (url: string, body: unknown) => {
+    const response = await fetchImpl(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      throw new Error(
+        `[sync-wiser][sse] Request to ${url} failed with status ${response.status}`
+      );
+    }
+  };
+
+  // Subscription changes made in the same tick share one request. While the
+  // stream is down they only accumulate: every (re)open replays the full set.
+  const scheduleSubscriptionFlush = () => {
+    if (flushScheduled) return;
+    flushScheduled = true;
+    queueMicrotask(() => {
+      flushScheduled = false;
+      if (!open) return;
+      const subscribe = Array.from(pendingSubscribe);
+      const unsubscribe = Array.from(pendingUnsubscribe);
+      pendingSubscribe.clear();
+      pendingUnsubscribe.clear();
+      if (subscribe.length === 0 && unsubscribe.length === 0) return;
+      subscriptionChain = subscriptionChain
+        .then(() => post(subscriptionUrl, { connectionId, subscribe, unsubscribe }))
+        .catch(reportError);
+    });
+  };
+
+  const resync = (state: SseDocumentState) => {
+    for (const context of state.contexts) {
+      try {
+        context.resync?.();
+      } catch (error) {
+        reportError(error);
+      }
+    }
+  };
+
+  const dispatch = (
+    event: SseMessageEvent,
+    selectListeners: (state: SseDocumentState) => Set<UpdateListener>
+  ) => {
+    if (event.lastEventId) {
+      lastEventId = event.lastEventId;
+    }
+    try {
+      const message = JSON.parse(String(event.data)) as {
+        docId?: unknown;
+        update?: unknown;
+        meta?: unknown;
+      };
+      const docId = keyToDocId.get(String(message.docId));
+      if (!docId) return;
+      const state = docStates.get(docId);
+      if (!state) return;
+      const listeners = selectListeners(state);
+      if (listeners.size === 0) return;
+      const bytes = decodeUpdate(message.update);
+      const meta = isRealtimeUpdateMeta(message.meta) ? message.meta : undefined;
+      for (const listener of listeners) {
+        listener(bytes.slice(), meta);
+      }
+    } catch (error) {
+      reportError(error);
+    }
+  };
+
+  const streamUrlFor = () => {
+    const params = new URLSearchParams({ connectionId });
+    if (lastEventId !== null) {
+      params.set('lastEventId', lastEventId);
+    }
+    const separator = streamUrl.includes('?') ? '&' : '?';
+    return `${streamUrl}${separator}${params.toString()}`;
+  };
+
+  const scheduleReconnect = () => {
+    if (disposed || docStates.size === 0 || reconnectTimer) {
+      return;
+    }
+    const delay = Math.min(
+      reconnectDelay * 2 ** reconnectAttempts,
+      maxReconnectDelay
+    );
+    reconnectAttempts += 1;
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      connect();
+    }, delay);
+  };
+
+  const connect = () => {
+    if (disposed || source || reconnectTimer) {
+      return;
+    }
+    const next = new EventSourceImpl(
+      streamUrlFor(),
+      withCredentials === undefined ? undefined : { withCredentials }
+    );
+    source = next;
+
+    next.onopen = () => {
+      if (source !== next) return;
+      open = true;
+      reconnectAttempts = 0;
+      const reconnected = openedBefore;
+      openedBefore = true;
+      // The server may have dropped this connection's subscriptions while the
+      // stream was down, so announce every document again.
+      for (const state of docStates.values()) {
+        pendingUnsubscribe.delete(state.key);
+        pendingSubscribe.add(state.key);
+      }
+      scheduleSubscriptionFlush();
+      // Servers that cannot replay from `lastEventId` lose the updates sent
+      // while the stream was down, so the runtime pulls them instead.
+      if (reconnected) {
+        for (const state of docStates.values()) {
+          resync(state);
+        }
+      }
+    };
+    next.onerror = () => {
+      if (source !== next) return;
+      open = false;
+      // While the EventSource retries on its own it resends `Last-Event-ID`.
+      // Once it gives up, reopen it with the id as a query parameter instead.
+      if (next.readyState === EVENT_SOURCE_CLOSED) {
+        next.close();
+        source = null;
+        scheduleReconnect();
+      }
+    };
+    next.addEventListener(updateEvent, (event) =>
+      dispatch(event, (state) => state.listeners)
+    );
+    next.addEventListener(awarenessEvent, (event) =>
+      dispatch(event, (state) => state.awarenessListeners)
+    );
+  };
+
+  const closeStream = () => {
+    if (reconnectTimer) clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+    reconnectAttempts = 0;
+    source?.close();
+    source = null;
+    open = false;
+    openedBefore = false;
+    pendingSubscribe.clear();
+    pendingUnsubscribe.clear();
+  };
+
+  // Document updates and awareness share one subscription: announce it on the
+  // first listener of either kind and withdraw it once both sets are empty.
+  const acquireDocument = (docId: string): SseDocumentState => {
+    let state = docStates.get(docId);
+    if (!state) {
+      const key = documentIdentifier(docId);
+      state = {
+        key,
+        listeners: new Set(),
+        awarenessListeners: new Set(),
+        contexts: new Set(),
+      };
+      docStates.set(docId, state);
+      keyToDocId.set(key, docId);
+      pendingUnsubscribe.delete(key);
+      pendingSubscribe.add(key);
+      connect();
+      scheduleSubscriptionFlush();
+    }
+    return state;
+  };
+
+  const releaseDocument = (docId: string) => {
+    const state = docStates.get(docId);
+    if (
+      !state ||
+      state.listeners.size > 0 ||
+      state.awarenessListeners.size > 0
+    ) {
+      return;
+    }
+
+    docStates.delete(docId);
+    keyToDocId.delete(state.key);
+    if (docStates.size === 0) {
+      closeStream();
+      return;
+    }
+    pendingSubscribe.delete(state.key);
+    pendingUnsubscribe.add(state.key);
+    scheduleSubscriptionFlush();
+  };
+
+  const subscribe = (
+    docId: string,
+    onUpdate: UpdateListener,
+    context?: RealtimeSubscribeContext
+  ): (() => void) => {
+    const state = acquireDocument(docId);
+    state.listeners.add(onUpdate);
+    if (context) {
+      state.contexts.add(context);
+    }
+
+    return () => {
+      state.listeners.delete(onUpdate);
+      if (context) {
+        state.contexts.delete(context);
+      }
+      releaseDocument(docId);
+    };
+  };
+
+  const subscribeAwareness = (
+    docId: string,
+    onUpdate: (update: Uint8Array) => void
+  ): (() => void) => {
+    const state = acquireDocument(docId);
+    state.awarenessListeners.add(onUpdate);
+
+    return () => {
+      state.awarenessListeners.delete(onUpdate);
+      releaseDocument(docId);
+    };
+  };
+
+  const send = async (
+    docId: string,
+    event: SseEventKind,
+    update: Uint8Array,
+    meta?: RealtimeUpdateMeta
+  ) => {
+    const key = docStates.get(docId)?.key ?? documentIdentifier(docId);
+    try {
+      await post(publishUrl, {
+        connectionId,
+        docId: key,
+        event,
+        update: encodeUpdate(update),
+        meta,
+      });
+    } catch (error) {
+      reportError(error);
+      throw error;
+    }
+  };
+
+  const dispose = () => {
+    disposed = true;
+    docStates.clear();
+    keyToDocId.clear();
+    closeStream();
+  };
+
+  return {
+    subscribe,
+    publish: (docId, update, meta) => send(docId, 'update', update, meta),
+    subscribeAwareness,
+    publishAwareness: (docId, update) => send(docId, 'awareness', update),
+    dispose,
+  };
+}
+
+function defaultDecodeUpdate(payload: unknown): Uint8Array {
+  if (typeof payload === 'string') {
+    return decodeBase64(payload);
+  }
+  if (Array.isArray(payload)) {
+    return Uint8Array.from(payload);
+  }
+  throw new TypeError(
+    '[sync-wiser][sse] Unsupported payload format; provide a custom decodeUpdate()'
+  );
+}
@@ -0,0 +1,9 @@
+import type { RealtimeUpdateMeta } from '../types';
+
+// Metadata arrives from the wire, so only pass on well-formed values.
+export function isRealtimeUpdateMeta(value: unknown): value is RealtimeUpdateMeta {
+  const meta = value as RealtimeUpdateMeta | null | undefined;
+  return (
+    typeof meta?.clientId === 'string' && typeof meta.seq === 'number'
+  );
+}
@@ -0,0 +1,564 @@
+import * as decoding from 'lib0/decoding';
+import * as encoding from 'lib0/encoding';
+import type {
+  RealtimeAdapter,
+  RealtimeSubscribeContext,
+  SyncAdapter,
+} from '../types';
+import type { EventHandler } from './eventHandler';
+
+type WebSocketLike = {
+  binaryType: string;
+  readonly readyState: number;
+  send(data: Uint8Array): void;
+  close(code?: number, reason?: string): void;
+  onopen: EventHandler<unknown> | null;
+  onmessage: EventHandler<{ data: unknown }> | null;
+  onclose: EventHandler<unknown> | null;
+  onerror: EventHandler<unknown> | null;
+};
+
+type WebSocketConstructor = new (url: string) => WebSocketLike;
+
+type Step2Waiter = {
+  onUpdate(update: Uint8Array): void;
+  onClose(error: unknown): void;
+};
+
+type RoomState = {
+  docId: string;
+  key: string;
+  socket: WebSocketLike | null;
+  connecting: Promise<WebSocketLike> | null;
+  listeners: Set<(update: Uint8Array) => void>;
+  awarenessListeners: Set<(update: Uint8Array) => void>;
+  context: RealtimeSubscribeContext | null;
+  // Servers send sync step 1 once per connection; keep it so a subscription
+  // made on an already-open socket can still answer it.
+  serverStateVector: Uint8Array | null;
+  // Servers answer sync step 1 messages in order, so each step 2 reply is
+  // matched to the oldest outstanding request.
+  awaitingStep2: Step2Waiter[];
+  recentlySent: Uint8Array[];
+  reconnectAttempts: number;
+  reconnectTimer: ReturnType<typeof setTimeout> | null;
+  idleTimer: ReturnType<typeof setTimeout> | null;
+};
+
+export type YWebsocketAdapterOptions = {
+  /**
+   * Base URL of the y-websocket server. Each document connects to `${url}/${room}`.
+   */
+  url: string;
+  /**
+   * Query parameters appended to every room URL (e.g. auth tokens).
+   */
+  params?: Record<string, string>;
+  /**
+   * WebSocket implementation. Defaults to `globalThis.WebSocket`; pass `ws` in Node.
+   */
+  WebSocket?: WebSocketConstructor;
+  /**
+   * Map the logical document id to the y-websocket room name.
+   */
+  documentIdentifier?: (docId: string) => string;
+  /**
+   * Milliseconds to wait for a sync step 2 reply before failing a pull. Defaults to `10000`.
+   */
+  pullTimeout?: number;
+  /**
+   * Initial reconnect delay in milliseconds, doubled per attempt. Defaults to `1000`.
+   */
+  reconnectDelay?: number;
+  /**
+   * Upper bound for the reconnect delay. Defaults to `30000`.
+   */
+  maxReconnectDelay?: number;
+  /**
+   * Close rooms without realtime subscribers after this many idle milliseconds. Defaults to `10000`.
+   */
+  idleTimeout?: number;
+  /**
+   * Hook for surfacing adapter errors.
+   */
+  onError?: (error: unknown) => void;
+};
+
+export type YWebsocketAdapter = {
+  sync: SyncAdapter;
+  realtime: RealtimeAdapter;
+  /**
+   * Close every room connection and stop reconnecting.
+   */
+  dispose(): void;
+};
+
+const MESSAGE_SYNC = 0;
+const MESSAGE_AWARENESS = 1;
+const SYNC_STEP1 = 0;
+const SYNC_STEP2 = 1;
+const SYNC_UPDATE = 2;
+
+const WS_OPEN = 1;
+const EMPTY_STATE_VECTOR = new Uint8Array([0]);
+const RECENTLY_SENT_LIMIT = 16;
+
+const DEFAULT_PULL_TIMEOUT = 10_000;
+const DEFAULT_RECONNECT_DELAY = 1_000;
+const DEFAULT_MAX_RECONNECT_DELAY = 30_000;
+const DEFAULT_IDLE_TIMEOUT = 10_000;
+
+export function createYWebsocketAdapter(
+  options: YWebsocketAdapterOptions
+): YWebsocketAdapter {
+  const {
+    url,
+    params,
+    WebSocket: WebSocketImpl = (globalThis as typeof globalThis & {
+      WebSocket?: WebSocketConstructor;
+    }).WebSocket,
+    documentIdentifier = (docId: string) => docId,
+    pullTimeout = DEFAULT_PULL_TIMEOUT,
+    reconnectDelay = DEFAULT_RECONNECT_DELAY,
+    maxReconnectDelay = DEFAULT_MAX_RECONNECT_DELAY,
+    idleTimeout = DEFAULT_IDLE_TIMEOUT,
+    onError,
+  } = options;
+
+  if (!WebSocketImpl) {
+    throw new Error(
+      '[sync-wiser][y-websocket] A WebSocket implementation must be provided (global WebSocket is not available).'
+    );
+  }
+
+  const normalizedBase = url.replace(/\/+$/, '');
+  const query = params ? new URLSearchParams(params).toString() : '';
+  const rooms = new Map<string, RoomState>();
+  let disposed = false;
+
+  const reportError = (error: unknown) => {
+    if (onError) {
+      onError(error);
+      return;
+    }
+    console.error('[sync-wiser][y-websocket]', error);
+  };
+
+  const roomUrl = (key: string) =>
+    `${normalizedBase}/${encodeURIComponent(key)}${query ? `?${query}` : ''}`;
+
+  const ensureRoom = (docId: string): RoomState => {
+    let room = rooms.get(docId);
+    if (!room) {
+      room = {
+        docId,
+        key: documentIdentifier(docId),
+        socket: null,
+        connecting: null,
+        listeners: new Set(),
+        awarenessListeners: new Set(),
+        context: null,
+        serverStateVector: null,
+        awaitingStep2: [],
+        recentlySent: [],
+        reconnectAttempts: 0,
+        reconnectTimer: null,
+        idleTimer: null,
+      };
+      rooms.set(docId, room);
+    }
+    if (room.idleTimer) {
+      clearTimeout(room.idleTimer);
+      room.idleTimer = null;
+    }
+    return room;
+  };
+
+  const hasSubscribers = (room: RoomState) =>
+    room.listeners.size > 0 || room.awarenessListeners.size > 0;
+
+  const deliver = (
+    room: RoomState,
+    update: Uint8Array,
+    listeners = room.listeners
+  ) => {
+    for (const listener of listeners) {
+      try {
+        listener(update.slice());
+      } catch (error) {
+        reportError(error);
+      }
+    }
+  };
+
+  // Announce our state so the server replies with everything we are missing,
+  // e.g. after a reconnect dropped updates for subscribed documents.
+  const announce = (room: RoomState, socket: WebSocketLike) => {
+    if (!room.context) return;
+    room.awaitingStep2.push({
+      onUpdate: (update) => {
+        if (!isEmptyUpdate(update)) {
+          deliver(room, update);
+        }
+      },
+      onClose: () => undefined,
+    });
+    socket.send(encodeSyncMessage(SYNC_STEP1, room.context.getStateVector()));
+  };
+
+  const answerStep1 = async (
+    room: RoomState,
+    socket: WebSocketLike,
+    stateVector: Uint8Array
+  ) => {
+    if (!room.context) return;
+    const update = await room.context.encodeStateAsUpdate(stateVector);
+    if (socket.readyState === WS_OPEN) {
+      socket.send(encodeSyncMessage(SYNC_STEP2, update));
+    }
+  };
+
+  const handleMessage = (room: RoomState, socket: WebSocketLike, data: unknown) => {
+    const decoder = decoding.createDecoder(toBytes(data));
+    const messageType = decoding.readVarUint(decoder);
+    if (messageType === MESSAGE_AWARENESS) {
+      deliver(room, decoding.readVarUint8Array(decoder), room.awarenessListeners);
+      return;
+    }
+    if (messageType !== MESSAGE_SYNC) {
+      return;
+    }
+    const syncType = decoding.readVarUint(decoder);
+    const payload = decoding.readVarUint8Array(decoder);
+    switch (syncType) {
+      case SYNC_STEP1:
+        room.serverStateVector = payload;
+        answerStep1(room, socket, payload).catch(reportError);
+        break;
+      case SYNC_STEP2: {
+        const waiter = room.awaitingStep2.shift();
+        if (waiter) {
+          waiter.onUpdate(payload);
+        } else if (!isEmptyUpdate(payload)) {
+          deliver(room, payload);
+        }
+        break;
+      }
+      case SYNC_UPDATE:
+        deliver(room, payload);
+        break;
+      default:
+        break;
+    }
+  };
+
+  const scheduleReconnect = (room: RoomState) => {
+    if (disposed || !hasSubscribers(room) || room.reconnectTimer) {
+      return;
+    }
+    const delay = Math.min(
+      reconnectDelay * 2 ** room.reconnectAttempts,
+      maxReconnectDelay
+    );
+    room.reconnectAttempts += 1;
+    room.reconnectTimer = setTimeout(() => {
+      room.reconnectTimer = null;
+      connect(room).catch(reportError);
+    }, delay);
+  };
+
+  const connect = (room: RoomState): Promise<WebSocketLike> => {
+    if (disposed) {
+      return Promise.reject(
+        new Error('[sync-wiser][y-websocket] Adapter has been disposed.')
+      );
+    }
+    if (room.socket && room.socket.readyState === WS_OPEN) {
+      return Promise.resolve(room.socket);
+    }
+    if (room.connecting) {
+      return room.connecting;
+    }
+
+    room.connecting = new Promise<WebSocketLike>((resolve, reject) => {
+      const socket = new WebSocketImpl(roomUrl(room.key));
+      socket.binaryType = 'arraybuffer';
+      room.socket = socket;
+      let opened = false;
+
+      socket.onopen = () => {
+        opened = true;
+        room.connecting = null;
+        room.reconnectAttempts = 0;
+        if (room.listeners.size > 0) {
+          announce(room, socket);
+        }
+        resolve(socket);
+      };
+      socket.onmessage = (event: { data: unknown }) => {
+        try {
+          handleMessage(room, socket, event.data);
+        } catch (error) {
+          reportError(error);
+        }
+      };
+      socket.onerror = () => {
+        /* onclose follows and handles cleanup */
+      };
+      socket.onclose = () => {
+        if (room.socket === socket) {
+          room.socket = null;
+          room.serverStateVector = null;
+        }
+        const error = new Error(
+          `[sync-wiser][y-websocket] Connection to room "${room.key}" closed.`
+        );
+        if (!opened) {
+          room.connecting = null;
+          reject(error);
+        }
+        const waiters = room.awaitingStep2.splice(0);
+        for (const waiter of waiters) {
+          waiter.onClose(error);
+        }
+        scheduleReconnect(room);
+      };
+    });
+
+    return room.connecting;
+  };
+
+  const closeRoom = (room: RoomState) => {
+    rooms.delete(room.docId);
+    if (room.reconnectTimer) clearTimeout(room.reconnectTimer);
+    if (room.idleTimer) clearTimeout(room.idleTimer);
+    room.reconnectTimer = null;
+    room.idleTimer = null;
+    room.socket?.close();
+    room.socket = null;
+  };
+
+  const scheduleIdleClose = (room: RoomState) => {
+    if (
+      disposed ||
+      hasSubscribers(room) ||
+      room.awaitingStep2.length > 0 ||
+      rooms.get(room.docId) !== room
+    ) {
+      return;
+    }
+    if (room.idleTimer) clearTimeout(room.idleTimer);
+    room.idleTimer = setTimeout(() => {
+      room.idleTimer = null;
+      if (!hasSubscribers(room) && room.awaitingStep2.length === 0) {
+        closeRoom(room);
+      }
+    }, idleTimeout);
+  };
+
+  const sendUpdate = async (room: RoomState, update: Uint8Array) => {
+    const socket = await connect(room);
+    socket.send(encodeSyncMessage(SYNC_UPDATE, update));
+    room.recentlySent.push(update.slice());
+    if (room.recentlySent.length > RECENTLY_SENT_LIMIT) {
+      room.recentlySent.shift();
+    }
+  };
+
+  const pull: SyncAdapter['pull'] = async (docId, stateVector, pullOptions) => {
+    const room = ensureRoom(docId);
+    try {
+      const socket = await connect(room);
+      const target =
+        pullOptions?.requestSnapshot || !stateVector
+          ? EMPTY_STATE_VECTOR
+          : stateVector;
+
+      return await new Promise<Uint8Array | null>((resolve, reject) => {
+        let settled = false;
+        const timer = setTimeout(() => {
+          settled = true;
+          reject(
+            new Error(
+              `[sync-wiser][y-websocket] Timed out waiting for sync step 2 in room "${room.key}".`
+            )
+          );
+        }, pullTimeout);
+        room.awaitingStep2.push({
+          onUpdate: (update) => {
+            if (settled) {
+              // The caller gave up; keep the data flowing to subscribers.
+              if (!isEmptyUpdate(update)) deliver(room, update);
+              return;
+            }
+            settled = true;
+            clearTimeout(timer);
+            resolve(isEmptyUpdate(update) ? null : update);
+          },
+          onClose: (error) => {
+            if (settled) return;
+            settled = true;
+            clearTimeout(timer);
+            reject(error);
+          },
+        });
+        socket.send(encodeSyncMessage(SYNC_STEP1, target));
+      });
+    } catch (error) {
+      reportError(error);
+      throw error;
+    } finally {
+      scheduleIdleClose(room);
+    }
+  };
+
+  const push: SyncAdapter['push'] = async (docId, update) => {
+    const room = ensureRoom(docId);
+    try {
+      // y-websocket has no snapshot concept; a snapshot is just a full-state update.
+      await sendUpdate(room, update);
+    } catch (error) {
+      reportError(error);
+      throw error;
+    } finally {
+      scheduleIdleClose(room);
+    }
+  };
+
+  const subscribe: RealtimeAdapter['subscribe'] = (docId, onUpdate, context) => {
+    const room = ensureRoom(docId);
+    const wasIdle = room.listeners.size === 0;
+    room.listeners.add(onUpdate);
+    if (context) {
+      room.context = context;
+    }
+
+    if (wasIdle && room.socket?.readyState === WS_OPEN && !room.connecting) {
+      const socket = room.socket;
+      announce(room, socket);
+      if (room.serverStateVector) {
+        answerStep1(room, socket, room.serverStateVector).catch(reportError);
+      }
+    } else {
+      connect(room).catch(reportError);
+    }
+
+    return () => {
+      room.listeners.delete(onUpdate);
+      if (room.listeners.size > 0) {
+        return;
+      }
+      room.context = null;
+      scheduleIdleClose(room);
+    };
+  };
+
+  const publish: RealtimeAdapter['publish'] = async (docId, update) => {
+    const room = ensureRoom(docId);
+    try {
+      // A paired sync adapter already sent this exact update over the same
+      // socket; y-websocket servers broadcast it to peers, so skip the echo.
+      if (room.recentlySent.some((sent) => bytesEqual(sent, update))) {
+        return;
+      }
+      await sendUpdate(room, update);
+    } catch (error) {
+      reportError(error);
+      throw error;
+    } finally {
+      scheduleIdleClose(room);
+    }
+  };
+
+  const subscribeAwareness: NonNullable<RealtimeAdapter['subscribeAwareness']> = (
+    docId,
+    onUpdate
+  ) => {
+    const room = ensureRoom(docId);
+    room.awarenessListeners.add(onUpdate);
+    connect(room).catch(reportError);
+
+    return () => {
+      room.awarenessListeners.delete(onUpdate);
+      scheduleIdleClose(room);
+    };
+  };
+
+  const publishAwareness: NonNullable<RealtimeAdapter['publishAwareness']> = async (
+    docId,
+    update
+  ) => {
+    const room = ensureRoom(docId);
+    try {
+      const socket = await connect(room);
+      socket.send(encodeAwarenessMessage(update));
+    } catch (error) {
+      reportError(error);
+      throw error;
+    } finally {
+      scheduleIdleClose(room);
+    }
+  };
+
+  const dispose = () => {
+    disposed = true;
+    const error = new Error('[sync-wiser][y-websocket] Adapter has been disposed.');
+    for (const room of Array.from(rooms.values())) {
+      const waiters = room.awaitingStep2.splice(0);
+      for (const waiter of waiters) {
+        waiter.onClose(error);
+      }
+      room.listeners.clear();
+      room.awarenessListeners.clear();
+      closeRoom(room);
+    }
+  };
+
+  return {
+    sync: { pull, push },
+    realtime: { subscribe, publish, subscribeAwareness, publishAwareness },
+    dispose,
+  };
+}
+
+function encodeSyncMessage(syncType: number, payload: Uint8Array): Uint8Array {
+  const encoder = encoding.createEncoder();
+  encoding.writeVarUint(encoder, MESSAGE_SYNC);
+  encoding.writeVarUint(encoder, syncType);
+  encoding.writeVarUint8Array(encoder, payload);
+  return encoding.toUint8Array(encoder);
+}
+
+function encodeAwarenessMessage(update: Uint8Array): Uint8Array {
+  const encoder = encoding.createEncoder();
+  encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+  encoding.writeVarUint8Array(encoder, update);
+  return encoding.toUint8Array(encoder);
+}
+
+// Checked by tag rather than `instanceof` because sockets from another realm
+// (e.g. Node's `ws` under a DOM shim) hand out foreign ArrayBuffers.
+function toBytes(data: unknown): Uint8Array {
+  if (ArrayBuffer.isView(data)) {
+    return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  }
+  if (Object.prototype.toString.call(data) === '[object ArrayBuffer]') {
+    return new Uint8Array(data as ArrayBuffer);
+  }
+  throw new TypeError(
+    '[sync-wiser][y-websocket] Unsupported message payload; expected binary data.'
+  );
+}
+
+// An encoded Yjs update with no structs and an empty delete set.
+function isEmptyUpdate(update: Uint8Array): boolean {
+  return update.byteLength === 0 || (update.byteLength === 2 && update[0] === 0 && update[1] === 0);
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.byteLength !== b.byteLength) return false;
+  for (let i = 0; i < a.byteLength; i += 1) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+}
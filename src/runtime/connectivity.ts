@@ -0,0 +1,29 @@
+import type { ConnectivityAdapter } from '../types';
+
+/**
+ * Connectivity signal backed by `navigator.onLine` and the window
+ * `online`/`offline` events. Reports online where neither exists (e.g. Node).
+ */
+export function createNavigatorConnectivity(): ConnectivityAdapter {
+  return {
+    isOnline() {
+      return typeof navigator === 'undefined' || navigator.onLine !== false;
+    },
+    subscribe(listener) {
+      if (
+        typeof window === 'undefined' ||
+        typeof window.addEventListener !== 'function'
+      ) {
+        return () => undefined;
+      }
+      const handleOnline = () => listener(true);
+      const handleOffline = () => listener(false);
+      window.addEventListener('online', handleOnline);
+      window.addEventListener('offline', handleOffline);
+      return () => {
+        window.removeEventListener('online', handleOnline);
+        window.removeEventListener('offline', handleOffline);
+      };
+    },
+  };
+}
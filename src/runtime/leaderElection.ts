@@ -0,0 +1,236 @@
+import { createRandomId } from '../realtime/randomId';
+import type { LeaderElection } from '../types';
+
+type LockManagerLike = {
+  request(
+    name: string,
+    options: { signal?: AbortSignal },
+    callback: (lock: unknown) => Promise<void>
+  ): Promise<unknown>;
+};
+
+type BroadcastChannelLike = {
+  onmessage: ((event: { data: unknown }) => void) | null;
+  postMessage(message: unknown): void;
+  close(): void;
+};
+
+type BroadcastChannelConstructor = new (name: string) => BroadcastChannelLike;
+
+type ElectionMessage = {
+  type: 'heartbeat' | 'claim' | 'resign';
+  id: string;
+};
+
+export type LeaderElectionOptions = {
+  /**
+   * Lock (and fallback channel) name. Tabs competing for the same name elect one leader.
+   */
+  name: string;
+  /**
+   * Web Locks implementation. Defaults to `navigator.locks`; pass `null` to force
+   * the `BroadcastChannel` fallback.
+   */
+  locks?: LockManagerLike | null;
+  /**
+   * `BroadcastChannel` implementation used when Web Locks are unavailable.
+   */
+  BroadcastChannel?: BroadcastChannelConstructor;
+  /**
+   * Fallback only: milliseconds between leader heartbeats. Defaults to `1000`.
+   */
+  heartbeatInterval?: number;
+  /**
+   * Fallback only: milliseconds without a heartbeat before followers elect a new
+   * leader. Defaults to three heartbeat intervals.
+   */
+  leaderTimeout?: number;
+  onError?: (error: unknown) => void;
+};
+
+const DEFAULT_HEARTBEAT_INTERVAL = 1_000;
+
+/**
+ * Elects one leader among the tabs sharing `name`. With Web Locks the leader
+ * holds an exclusive lock that the browser releases when its tab closes.
+ * Without them, tabs fall back to heartbeats over a `BroadcastChannel`: the
+ * leader announces itself periodically, followers claim leadership once the
+ * heartbeats stop, and concurrent claims are settled by the lowest tab id.
+ */
+export function createLeaderElection(
+  options: LeaderElectionOptions
+): LeaderElection {
+  const {
+    name,
+    locks = (globalThis as typeof globalThis & {
+      navigator?: { locks?: LockManagerLike };
+    }).navigator?.locks ?? null,
+    BroadcastChannel: BroadcastChannelImpl = (globalThis as typeof globalThis & {
+      BroadcastChannel?: BroadcastChannelConstructor;
+    }).BroadcastChannel,
+    heartbeatInterval = DEFAULT_HEARTBEAT_INTERVAL,
+    leaderTimeout = heartbeatInterval * 3,
+    onError,
+  } = options;
+
+  const listeners = new Set<(isLeader: boolean) => void>();
+  let leader = false;
+  let disposed = false;
+
+  const reportError = (error: unknown) => {
+    if (onError) {
+      onError(error);
+      return;
+    }
+    console.error('[sync-wiser][leader-election]', error);
+  };
+
+  const setLeader = (next: boolean) => {
+    if (leader === next) return;
+    leader = next;
+    for (const listener of Array.from(listeners)) {
+      try {
+        listener(next);
+      } catch (error) {
+        reportError(error);
+      }
+    }
+  };
+
+  let stop: () => void;
+
+  if (locks) {
+    const controller = new AbortController();
+    let releaseLock: (() => void) | null = null;
+    locks
+      .request(name, { signal: controller.signal }, () =>
+        new Promise<void>((resolve) => {
+          if (disposed) {
+            resolve();
+            return;
+          }
+          releaseLock = resolve;
+          setLeader(true);
+        })
+      )
+      .catch((error) => {
+        if (!disposed) reportError(error);
+      });
+    stop = () => {
+      controller.abort();
+      releaseLock?.();
+    };
+  } else if (BroadcastChannelImpl) {
+    stop = runHeartbeatElection();
+  } else {
+    throw new Error(
+      '[sync-wiser][leader-election] Neither Web Locks nor BroadcastChannel is available.'
+    );
+  }
+
+  function runHeartbeatElection(): () => void {
+    const id = createRandomId();
+    const channel = new BroadcastChannelImpl!(name);
+    let lastHeartbeat = 0;
+    let claimTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const post = (type: ElectionMessage['type']) => {
+      channel.postMessage({ type, id } satisfies ElectionMessage);
+    };
+
+    const abandonClaim = () => {
+      if (claimTimer) clearTimeout(claimTimer);
+      claimTimer = null;
+    };
+
+    // Claims wait one interval so a live leader (or a tab with a lower id)
+    // can object before this tab takes over.
+    const claim = () => {
+      if (claimTimer || leader || disposed) return;
+      post('claim');
+      claimTimer = setTimeout(() => {
+        claimTimer = null;
+        if (Date.now() - lastHeartbeat <= leaderTimeout) return;
+        setLeader(true);
+        post('heartbeat');
+      }, heartbeatInterval);
+    };
+
+    channel.onmessage = (event) => {
+      const message = event.data as ElectionMessage | null;
+      if (!message || message.id === id) return;
+      switch (message.type) {
+        case 'heartbeat':
+          if (leader && message.id > id) {
+            // Two leaders after a split: the lower id keeps the role.
+            post('heartbeat');
+            return;
+          }
+          lastHeartbeat = Date.now();
+          abandonClaim();
+          setLeader(false);
+          break;
+        case 'claim':
+          if (leader) {
+            post('heartbeat');
+          } else if (claimTimer && message.id < id) {
+            abandonClaim();
+            lastHeartbeat = Date.now();
+          }
+          break;
+        case 'resign':
+          lastHeartbeat = 0;
+          claim();
+          break;
+        default:
+          break;
+      }
+    };
+
+    const interval = setInterval(() => {
+      if (leader) {
+        post('heartbeat');
+      } else if (Date.now() - lastHeartbeat > leaderTimeout) {
+        claim();
+      }
+    }, heartbeatInterval);
+
+    const resign = () => {
+      if (leader) post('resign');
+    };
+
+    const onPageHide = () => resign();
+    const target = globalThis as typeof globalThis & {
+      addEventListener?: (type: string, listener: () => void) => void;
+      removeEventListener?: (type: string, listener: () => void) => void;
+    };
+    target.addEventListener?.('pagehide', onPageHide);
+
+    claim();
+
+    return () => {
+      resign();
+      clearInterval(interval);
+      abandonClaim();
+      target.removeEventListener?.('pagehide', onPageHide);
+      channel.close();
+    };
+  }
+
+  return {
+    isLeader: () => leader,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    dispose() {
+      if (disposed) return;
+      disposed = true;
+      stop();
+      setLeader(false);
+      listeners.clear();
+    },
+  };
+}
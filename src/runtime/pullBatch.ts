@@ -0,0 +1,56 @@
+import type { SyncAdapter, SyncPullRequest } from '../types';
+
+export type PullBatch = {
+  pull(request: SyncPullRequest): Promise<Uint8Array | null>;
+  /**
+   * Marks a document as no longer taking part (e.g. its load failed before it
+   * pulled) so the remaining requests are not held back waiting for it.
+   */
+  release(docId: string): void;
+};
+
+/**
+ * Collects the initial pull of every listed document and sends them through a
+ * single `pullMany()` call once each document has either pulled or been released.
+ */
+export function createPullBatch(
+  pullMany: NonNullable<SyncAdapter['pullMany']>,
+  docIds: Iterable<string>
+): PullBatch {
+  const waiting = new Set(docIds);
+  const queued: Array<{
+    request: SyncPullRequest;
+    resolve: (result: Uint8Array | null) => void;
+    reject: (error: unknown) => void;
+  }> = [];
+
+  const flushIfReady = () => {
+    if (waiting.size > 0 || queued.length === 0) return;
+    const batch = queued.splice(0);
+    pullMany(batch.map((item) => item.request)).then(
+      (results) => {
+        batch.forEach((item, index) => item.resolve(results[index] ?? null));
+      },
+      (error) => {
+        batch.forEach((item) => item.reject(error));
+      }
+    );
+  };
+
+  return {
+    pull(request) {
+      if (!waiting.delete(request.docId)) {
+        return pullMany([request]).then((results) => results[0] ?? null);
+      }
+      return new Promise((resolve, reject) => {
+        queued.push({ request, resolve, reject });
+        flushIfReady();
+      });
+    },
+    release(docId) {
+      if (waiting.delete(docId)) {
+        flushIfReady();
+      }
+    },
+  };
+}
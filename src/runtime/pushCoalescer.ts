@@ -0,0 +1,60 @@
+import type { SyncAdapter, SyncPushRequest } from '../types';
+
+export type PushCoalescer = {
+  push(request: SyncPushRequest): Promise<void>;
+};
+
+/**
+ * Holds pushes for `window` milliseconds after the first one arrives and sends
+ * everything collected so far through one `pushMany()` call (sooner once
+ * `maxDocuments` pushes are waiting). Each caller settles with its own
+ * document's result, so one rejected document does not fail the others.
+ */
+export function createPushCoalescer(
+  pushMany: NonNullable<SyncAdapter['pushMany']>,
+  options: { window: number; maxDocuments: number }
+): PushCoalescer {
+  let queued: Array<{
+    request: SyncPushRequest;
+    resolve: () => void;
+    reject: (error: unknown) => void;
+  }> = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const flush = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    const batch = queued;
+    queued = [];
+    pushMany(batch.map((item) => item.request)).then(
+      (results) => {
+        batch.forEach((item, index) => {
+          const result = results[index];
+          if (result && result.error !== undefined) {
+            item.reject(result.error);
+          } else {
+            item.resolve();
+          }
+        });
+      },
+      (error) => {
+        batch.forEach((item) => item.reject(error));
+      }
+    );
+  };
+
+  return {
+    push(request) {
+      return new Promise((resolve, reject) => {
+        queued.push({ request, resolve, reject });
+        if (queued.length >= options.maxDocuments) {
+          flush();
+        } else if (!timer) {
+          timer = setTimeout(flush, options.window);
+        }
+      });
+    },
+  };
+}
@@ -1,10 +1,63 @@
 import * as Y from 'yjs';
-import type { StorageAdapter, WiserConfig, WiserModel } from '../types';
+import {
+  Awareness,
+  applyAwarenessUpdate,
+  encodeAwarenessUpdate,
+} from 'y-protocols/awareness';
+import type {
+  ChannelCodecs,
+  CodecAdapter,
+  CodecChannel,
+  ConnectivityAdapter,
+  RealtimeConnectionState,
+  RealtimeUpdateMeta,
+  RetryPolicy,
+  StorageAdapter,
+  SyncAdapter,
+  TabCoordinationOptions,
+  WiserConfig,
+  WiserModel,
+} from '../types';
 import { assembleStoredDoc } from '../storage/helpers';
+import { CorruptPayloadError } from '../errors';
+import { MIGRATION_ORIGIN, ROOT_MAP_NAME } from '../wiser';
+import { createRandomId } from '../realtime/randomId';
+import { createNavigatorConnectivity } from './connectivity';
+import { createPullBatch, type PullBatch } from './pullBatch';
+import { createPushCoalescer, type PushCoalescer } from './pushCoalescer';
+import { createTabCoordinator, type TabCoordinator } from './tabCoordinator';
 
 const STORAGE_ORIGIN = Symbol('wiser/storage');
 const SYNC_ORIGIN = Symbol('wiser/sync');
 const REALTIME_ORIGIN = Symbol('wiser/realtime');
+// Updates another tab already wrote to the shared storage.
+const TAB_ORIGIN = Symbol('wiser/tab');
+
+const DEFAULT_MAX_DOCS = 20;
+
+const DEFAULT_PUSH_BATCH_MAX_UPDATES = 100;
+const DEFAULT_PUSH_BATCH_MAX_BYTES = 1_000_000;
+
+const DEFAULT_PUSH_COALESCE_WINDOW = 10;
+const DEFAULT_PUSH_COALESCE_MAX_DOCUMENTS = 50;
+
+const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  initialDelay: 1_000,
+  maxDelay: 60_000,
+  multiplier: 2,
+  jitter: 0.2,
+  maxAttempts: Number.POSITIVE_INFINITY,
+};
+
+// Changes applied under these origins came from storage, peers or schema
+// upgrades and must never land on a user's undo stack.
+const UNTRACKED_ORIGINS = new Set<unknown>([
+  STORAGE_ORIGIN,
+  SYNC_ORIGIN,
+  REALTIME_ORIGIN,
+  TAB_ORIGIN,
+  MIGRATION_ORIGIN,
+]);
 
 type ManagedDoc<TShape extends Record<string, unknown>> = {
   id: string;
@@ -18,31 +71,67 @@ type ManagedDoc<TShape extends Record<string, unknown>> = {
   isBrandNew: boolean;
   unsubscribe: () => void;
   realtimeUnsubscribe: (() => void) | null;
+  awareness: Awareness;
+  awarenessUnsubscribe: (() => void) | null;
+  undoManager: Y.UndoManager | null;
   syncQueue: Promise<void> | null;
+  persistQueue: Promise<void> | null;
+  inboundQueue: Promise<void> | null;
+  // Highest realtime sequence number seen from each peer.
+  peerSequences: Map<string, number>;
+  catchUpQueued: boolean;
   pendingSyncUpdates: Uint8Array[];
+  retryAttempt: number;
+  retryTimer: ReturnType<typeof setTimeout> | null;
+  pins: number;
+  evicted: boolean;
 };
 
 export type WiserDocumentHandle<TShape extends Record<string, unknown>> = {
   id: string;
   doc: Y.Doc;
   data: TShape;
+  /**
+   * Presence channel (cursors, selections, user info) shared with peers through
+   * the realtime adapter. Remote states expire after 30s without a refresh.
+   */
+  awareness: Awareness;
   mutate(
     updater: (data: TShape) => void,
     options?: { origin?: unknown }
   ): Promise<void>;
   remove(): Promise<void>;
   sync(options?: WiserManualSyncOptions): Promise<void>;
+  /**
+   * Keep the document hydrated regardless of `cache.maxDocs`. Returns a
+   * release function; the document becomes evictable once every pin is released.
+   */
+  pin(): () => void;
+  /**
+   * Revert the last local `mutate()` (changes from storage, sync and realtime
+   * are never tracked). Scope and capture timeout come from the model's `undo` option.
+   */
+  undo(): void;
+  redo(): void;
+  canUndo(): boolean;
+  canRedo(): boolean;
+  onUndoStackChange(listener: () => void): () => void;
 };
 
 export type WiserSyncEvent = {
   docId: string;
   direction: 'pull' | 'push';
-  phase: 'start' | 'success' | 'error';
+  phase: 'start' | 'success' | 'error' | 'retry-scheduled' | 'offline';
   isSnapshot?: boolean;
   requestSnapshot?: boolean;
   updatesApplied?: number;
   bytes?: number;
   error?: unknown;
+  /**
+   * Retry number and delay in milliseconds for `retry-scheduled` events.
+   */
+  attempt?: number;
+  delay?: number;
   timestamp: number;
 };
 
@@ -56,52 +145,188 @@ export type WiserManualSyncOptions = {
 
 export class WiserRuntime {
   private readonly storage: StorageAdapter;
+  private readonly sync: SyncAdapter | undefined;
   private readonly config: WiserConfig;
+  private readonly connectivity: ConnectivityAdapter;
+  private readonly pushCoalescer: PushCoalescer | null;
+  private readonly codecs: ChannelCodecs;
+  private readonly tabs: TabCoordinator | null;
   private readonly docs = new Map<string, ManagedDoc<any>>();
+  private readonly loading = new Map<string, Promise<ManagedDoc<any>>>();
+  private readonly evictions = new Map<string, Promise<void>>();
   private readonly missingStorageMethods = new Set<string>();
   private readonly syncListeners = new Set<(event: WiserSyncEvent) => void>();
+  private readonly loadListeners = new Set<(docId: string) => void>();
+  private readonly realtimeStatusListeners = new Set<
+    (state: RealtimeConnectionState) => void
+  >();
+  private realtimeStatus: RealtimeConnectionState | null = null;
+  // With `tabs`, followers report the leader's connection instead of their own.
+  private ownRealtimeStatus: RealtimeConnectionState | null = null;
+  private leaderRealtimeStatus: RealtimeConnectionState | null = null;
+  private readonly unsubscribeRealtimeStatus: (() => void) | null;
+  private readonly unsubscribeConnectivity: (() => void) | null;
+  private readonly outbox = new Map<string, Promise<void>>();
+  private readonly clientId = createRandomId();
+  // Kept per runtime rather than per entry so numbering continues after an
+  // evicted document is loaded again.
+  private readonly publishedSequences = new Map<string, number>();
 
   constructor(config: WiserConfig) {
     this.config = config;
     this.storage = config.storage;
+    this.connectivity = config.connectivity ?? createNavigatorConnectivity();
+    this.sync = this.bindSyncCursorStore(config.sync);
+    this.pushCoalescer = this.createPushCoalescer();
+    this.codecs = resolveChannelCodecs(config.codec);
+    this.tabs = config.tabs ? this.createTabCoordinator(config.tabs) : null;
+    this.unsubscribeRealtimeStatus =
+      config.realtime?.onStatusChange?.((state) => {
+        this.ownRealtimeStatus = state;
+        this.tabs?.announceRealtimeStatus();
+        this.refreshRealtimeStatus();
+      }) ?? null;
+    this.unsubscribeConnectivity = this.sync
+      ? this.connectivity.subscribe((online) => {
+          if (online) {
+            this.resumePendingSync();
+          }
+        })
+      : null;
   }
 
   async getDocument<TShape extends Record<string, unknown>>(
     id: string,
     model: WiserModel<TShape>
   ): Promise<WiserDocumentHandle<TShape>> {
+    const eviction = this.evictions.get(id);
+    if (eviction) {
+      await eviction;
+    }
+
     let entry = this.docs.get(id) as ManagedDoc<TShape> | undefined;
 
-    if (!entry) {
-      entry = await this.createManagedDoc(id, model);
-      this.docs.set(id, entry);
+    if (entry) {
+      this.touch(entry);
+    } else {
+      entry = await this.loadManagedDoc(id, model);
     }
 
+    this.evictIfNeeded(entry);
+
+    return this.createHandle(entry);
+  }
+
+  /**
+   * Loads several documents of the same model at once. When the sync adapter
+   * implements `pullMany`, the initial pulls of every document not already in
+   * memory share a single round trip. Handles are returned in `ids` order.
+   */
+  async getDocuments<TShape extends Record<string, unknown>>(
+    ids: string[],
+    model: WiserModel<TShape>
+  ): Promise<Array<WiserDocumentHandle<TShape>>> {
+    await Promise.all(ids.map((id) => this.evictions.get(id)));
+
+    const toLoad = new Set(
+      ids.filter((id) => !this.docs.has(id) && !this.loading.has(id))
+    );
+    const pullMany = this.sync?.pullMany?.bind(this.sync);
+    const batch =
+      pullMany && toLoad.size > 1 ? createPullBatch(pullMany, toLoad) : undefined;
+
+    const entries = await Promise.all(
+      ids.map((id) => {
+        const entry = this.docs.get(id) as ManagedDoc<TShape> | undefined;
+        if (entry) {
+          this.touch(entry);
+          return entry;
+        }
+        return this.loadManagedDoc(id, model, batch);
+      })
+    );
+
+    return entries.map((entry) => {
+      this.evictIfNeeded(entry);
+      return this.createHandle(entry);
+    });
+  }
+
+  private createHandle<TShape extends Record<string, unknown>>(
+    entry: ManagedDoc<TShape>
+  ): WiserDocumentHandle<TShape> {
     return {
-      id,
+      id: entry.id,
       doc: entry.doc,
       data: entry.data,
+      awareness: entry.awareness,
       mutate: (updater, options) =>
-        this.mutate(entry!, updater, options?.origin),
-      remove: () => this.remove(entry!),
-      sync: (options) => this.syncDocument(entry!, options),
+        this.mutate(entry, updater, options?.origin),
+      remove: () => this.remove(entry),
+      sync: (options) => this.syncDocument(entry, options),
+      pin: () => this.pin(entry),
+      undo: () => {
+        this.assertNotEvicted(entry);
+        entry.undoManager?.undo();
+      },
+      redo: () => {
+        this.assertNotEvicted(entry);
+        entry.undoManager?.redo();
+      },
+      canUndo: () => entry.undoManager?.canUndo() ?? false,
+      canRedo: () => entry.undoManager?.canRedo() ?? false,
+      onUndoStackChange: (listener) => this.onUndoStackChange(entry, listener),
     };
   }
 
+  private loadManagedDoc<TShape extends Record<string, unknown>>(
+    id: string,
+    model: WiserModel<TShape>,
+    pullBatch?: PullBatch
+  ): Promise<ManagedDoc<TShape>> {
+    const inflight = this.loading.get(id) as
+      | Promise<ManagedDoc<TShape>>
+      | undefined;
+    if (inflight) {
+      return inflight;
+    }
+
+    const load = this.createManagedDoc(id, model, pullBatch)
+      .then((entry) => {
+        this.docs.set(id, entry);
+        this.emitDocumentLoaded(id);
+        return entry;
+      })
+      .finally(() => {
+        this.loading.delete(id);
+        pullBatch?.release(id);
+      });
+    this.loading.set(id, load);
+    return load;
+  }
+
   private async createManagedDoc<TShape extends Record<string, unknown>>(
     id: string,
-    model: WiserModel<TShape>
+    model: WiserModel<TShape>,
+    pullBatch?: PullBatch
   ): Promise<ManagedDoc<TShape>> {
-    const doc = new Y.Doc();
+    const doc = new Y.Doc({ gc: this.config.policies?.gc ?? false });
+    const awareness = new Awareness(doc);
+    // Peers only appear in presence once they opt in via setLocalState().
+    awareness.setLocalState(null);
     const stored = await assembleStoredDoc(this.storage, id);
     if (stored) {
       if (stored.snapshot) {
-        const snapshot = this.decode(stored.snapshot);
-        Y.applyUpdate(doc, snapshot, STORAGE_ORIGIN);
+        const snapshot = await this.decodeOrSkip(id, stored.snapshot, 'storage');
+        if (snapshot) {
+          Y.applyUpdate(doc, snapshot, STORAGE_ORIGIN);
+        }
       }
       for (const update of stored.updates) {
-        const decoded = this.decode(update);
-        Y.applyUpdate(doc, decoded, STORAGE_ORIGIN);
+        const decoded = await this.decodeOrSkip(id, update, 'storage');
+        if (decoded) {
+          Y.applyUpdate(doc, decoded, STORAGE_ORIGIN);
+        }
       }
     }
     const pendingSyncFromStorage = stored?.pendingSync ?? [];
@@ -127,58 +352,102 @@ export class WiserRuntime {
         /* replaced after handler registration */
       },
       realtimeUnsubscribe: null,
+      awareness,
+      awarenessUnsubscribe: null,
+      undoManager: null,
       syncQueue: null,
+      persistQueue: null,
+      inboundQueue: null,
+      peerSequences: new Map(),
+      catchUpQueued: false,
       pendingSyncUpdates: pendingSyncFromStorage.map((update) => update.slice()),
+      retryAttempt: 0,
+      retryTimer: null,
+      pins: 0,
+      evicted: false,
     };
 
-    await this.fetchAndApplyFromSync(entry);
+    await this.fetchAndApplyFromSync(entry, pullBatch);
 
+    // Persist the model scaffolding created for fresh docs so later updates
+    // still resolve against it after the doc is rehydrated from storage.
+    const structureUpdates: Array<{ update: Uint8Array; origin: unknown }> = [];
+    const captureStructure = (update: Uint8Array, origin: unknown) => {
+      structureUpdates.push({ update, origin });
+    };
+    doc.on('update', captureStructure);
     const { data } = model.instantiate(doc);
+    doc.off('update', captureStructure);
     entry.data = data;
+    entry.undoManager = this.createUndoManager(entry);
     this.refreshModelData(entry);
 
+    // Migrations rewrite shared state, so unlike scaffolding they are queued
+    // for sync along with the rest of the pending updates below.
+    for (const { update, origin } of structureUpdates) {
+      const migration = origin === MIGRATION_ORIGIN;
+      const ownsNetwork = this.ownsNetwork();
+      await this.persistUpdate(id, await this.encode(update, 'storage'), entry, {
+        markPending: migration && (ownsNetwork || 'shared'),
+      });
+      if (migration && !ownsNetwork) {
+        this.tabs!.broadcast(id, update, { persisted: true, forward: true });
+      }
+    }
+
     const updateHandler = (update: Uint8Array, origin: unknown) => {
-      if (origin === STORAGE_ORIGIN) {
+      if (origin === STORAGE_ORIGIN || origin === TAB_ORIGIN) {
         return;
       }
 
       this.refreshModelData(entry);
 
-      const encoded = this.encode(update);
-      if (origin === SYNC_ORIGIN) {
-        this.persistUpdate(id, encoded, entry, { markPending: false }).catch(
-          (error) => this.reportError(error)
-        );
-        return;
-      }
-      if (origin === REALTIME_ORIGIN) {
-        this.persistUpdate(id, encoded, entry, { markPending: false }).catch(
-          (error) => this.reportError(error)
-        );
+      // Encoding starts right away (codecs may be async) while the queues
+      // below keep storage writes and pushes in update order.
+      const encoded = this.encode(update, 'storage');
+      encoded.catch(() => undefined);
+      const encodeForRealtime = () =>
+        this.codecs.realtime === this.codecs.storage
+          ? encoded
+          : this.encode(update, 'realtime');
+      if (origin === SYNC_ORIGIN || origin === REALTIME_ORIGIN) {
+        this.enqueuePersist(entry, async () => {
+          await this.persistUpdate(id, await encoded, entry, {
+            markPending: false,
+          });
+          // Only the leader talks to the server; followers learn from it.
+          if (this.tabs?.isLeader()) {
+            this.tabs.broadcast(id, update, { persisted: true });
+          }
+        }).catch((error) => this.reportError(error));
         return;
       }
 
-      const persistPromise = this.persistUpdate(id, encoded, entry, {
-        markPending: true,
-      });
+      const ownsNetwork = this.ownsNetwork();
+      const persistPromise = this.enqueuePersist(entry, async () =>
+        this.persistUpdate(id, await encoded, entry, {
+          markPending: ownsNetwork || 'shared',
+        })
+      );
 
       persistPromise.catch((error) => this.reportError(error));
 
-      if (!this.config.sync) {
-        if (this.config.realtime) {
-          this.enqueueSync(entry, async () => {
-            await persistPromise;
-            await this.publishRealtime(entry, encoded);
-          });
-        }
-        return;
+      if (this.tabs) {
+        // Other tabs apply the edit from the shared storage's point of view,
+        // so announce it only once it is written.
+        const tabs = this.tabs;
+        persistPromise
+          .then(() =>
+            tabs.broadcast(id, update, {
+              persisted: true,
+              forward: !ownsNetwork,
+            })
+          )
+          .catch(() => undefined);
+        if (!ownsNetwork) return;
       }
 
-      this.enqueueSync(entry, async () => {
-        await persistPromise;
-        await this.syncOutgoingUpdate(entry, encoded);
-        await this.publishRealtime(entry, encoded);
-      });
+      this.queueOutbound(entry, persistPromise, encodeForRealtime);
     };
 
     doc.on('update', updateHandler);
@@ -186,46 +455,220 @@ export class WiserRuntime {
       doc.off('update', updateHandler);
     };
 
-    entry.realtimeUnsubscribe = this.subscribeRealtime(entry);
+    this.connectRealtime(entry);
 
-    if (entry.pendingSyncUpdates.length > 0 && this.config.sync) {
-      const pendingQueue = entry.pendingSyncUpdates.slice();
-      for (const pendingUpdate of pendingQueue) {
-        this.enqueueSync(entry, () =>
-          this.syncOutgoingUpdate(entry, pendingUpdate)
-        );
-      }
+    if (
+      entry.pendingSyncUpdates.length > 0 &&
+      this.sync &&
+      this.ownsNetwork()
+    ) {
+      this.drainPending(entry);
     }
 
     return entry;
   }
 
+  // Pushes the pending backlog once `ready` settles, then publishes the update
+  // to realtime peers.
+  private queueOutbound(
+    entry: ManagedDoc<any>,
+    ready: Promise<void>,
+    encodeForRealtime: () => Promise<Uint8Array>
+  ) {
+    if (!this.sync) {
+      if (this.config.realtime) {
+        this.enqueueSync(entry, async () => {
+          await ready;
+          await this.publishRealtime(entry.id, await encodeForRealtime());
+        });
+      }
+      return;
+    }
+
+    this.enqueueSync(entry, async () => {
+      await ready;
+      if (!this.connectivity.isOnline()) {
+        this.deferWhileOffline(entry);
+        return;
+      }
+      await this.pushPending(entry);
+      await this.publishRealtime(entry.id, await encodeForRealtime());
+    }).catch(() => undefined);
+  }
+
   private async mutate<TShape extends Record<string, unknown>>(
     entry: ManagedDoc<TShape>,
     updater: (shape: TShape) => void,
     origin?: unknown
   ) {
+    this.assertNotEvicted(entry);
+    this.touch(entry);
+    if (
+      origin !== undefined &&
+      origin !== null &&
+      !UNTRACKED_ORIGINS.has(origin)
+    ) {
+      entry.undoManager?.trackedOrigins.add(origin);
+    }
     entry.doc.transact(() => updater(entry.data), origin);
   }
 
   private async remove(entry: ManagedDoc<any>) {
+    this.detach(entry);
+    if (this.docs.get(entry.id) === entry) {
+      this.docs.delete(entry.id);
+    }
+    await entry.persistQueue;
+    await this.storage.remove(entry.id);
+  }
+
+  private detach(entry: ManagedDoc<any>) {
     entry.unsubscribe();
     if (entry.realtimeUnsubscribe) {
       entry.realtimeUnsubscribe();
       entry.realtimeUnsubscribe = null;
     }
+    // Destroying clears the local state, which broadcasts our departure
+    // before the awareness subscription is torn down.
+    entry.awareness.destroy();
+    if (entry.awarenessUnsubscribe) {
+      entry.awarenessUnsubscribe();
+      entry.awarenessUnsubscribe = null;
+    }
+    entry.undoManager?.destroy();
+    this.clearRetry(entry);
+  }
+
+  private createUndoManager(entry: ManagedDoc<any>): Y.UndoManager {
+    const options = entry.model.undo;
+    // Without explicit keys, scope the whole root map so fields replaced by
+    // concurrent scaffolding or migrations stay covered.
+    const scope = options?.keys
+      ? this.undoScope(entry, options.keys)
+      : [entry.doc.getMap(ROOT_MAP_NAME)];
+    return new Y.UndoManager(scope, {
+      captureTimeout: options?.captureTimeout,
+      trackedOrigins: new Set([null]),
+    });
+  }
+
+  private undoScope(
+    entry: ManagedDoc<any>,
+    keys: string[]
+  ): Y.AbstractType<any>[] {
+    const data = entry.data as Record<string, unknown>;
+    return keys
+      .map((key) => data[key])
+      .filter((value): value is Y.AbstractType<any> =>
+        value instanceof Y.AbstractType
+      );
+  }
+
+  private onUndoStackChange(
+    entry: ManagedDoc<any>,
+    listener: () => void
+  ): () => void {
+    const manager = entry.undoManager;
+    if (!manager) {
+      return () => undefined;
+    }
+    const events = [
+      'stack-item-added',
+      'stack-item-popped',
+      'stack-cleared',
+    ] as const;
+    const notify = () => listener();
+    for (const event of events) {
+      manager.on(event, notify);
+    }
+    return () => {
+      for (const event of events) {
+        manager.off(event, notify);
+      }
+    };
+  }
+
+  private pin(entry: ManagedDoc<any>): () => void {
+    entry.pins += 1;
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      entry.pins = Math.max(0, entry.pins - 1);
+      if (!entry.evicted) {
+        this.evictIfNeeded(null);
+      }
+    };
+  }
+
+  private touch(entry: ManagedDoc<any>) {
+    if (this.docs.get(entry.id) !== entry) return;
+    // Map iteration follows insertion order, so re-inserting keeps the most
+    // recently used documents at the end.
     this.docs.delete(entry.id);
-    await this.storage.remove(entry.id);
+    this.docs.set(entry.id, entry);
+  }
+
+  private evictIfNeeded(keep: ManagedDoc<any> | null) {
+    const maxDocs = this.config.cache?.maxDocs ?? DEFAULT_MAX_DOCS;
+    if (this.docs.size <= maxDocs) return;
+
+    for (const candidate of this.docs.values()) {
+      if (this.docs.size <= maxDocs) break;
+      if (candidate === keep || candidate.pins > 0) continue;
+      this.evict(candidate);
+    }
+  }
+
+  private evict(entry: ManagedDoc<any>) {
+    entry.evicted = true;
+    this.docs.delete(entry.id);
+
+    const flush = this.flushEvicted(entry)
+      .catch((error) => this.reportError(error))
+      .finally(() => {
+        if (this.evictions.get(entry.id) === flush) {
+          this.evictions.delete(entry.id);
+        }
+      });
+    this.evictions.set(entry.id, flush);
+  }
+
+  private async flushEvicted(entry: ManagedDoc<any>): Promise<void> {
+    // Let queued pushes/publishes settle while inbound updates are still
+    // persisted, then stop listening and wait for the remaining writes
+    // (including any snapshot they trigger) before the doc can rehydrate.
+    await entry.syncQueue;
+    this.detach(entry);
+    await entry.persistQueue;
+  }
+
+  private assertNotEvicted(entry: ManagedDoc<any>) {
+    if (entry.evicted) {
+      throw new Error(
+        `[sync-wiser] Document "${entry.id}" was evicted from the cache; call getDocument() again or pin() the handle to keep it loaded.`
+      );
+    }
   }
 
   private async persistUpdate(
     id: string,
     update: Uint8Array,
     entry: ManagedDoc<any>,
-    options: { markPending: boolean }
+    options: { markPending: boolean | 'shared' }
   ) {
     await this.storage.appendUpdate(id, update);
-    if (options.markPending) {
+    if (options.markPending === 'shared') {
+      // A follower's edit is only in storage until the leader acknowledges it.
+      // Queue it there next to the other tabs' edits, so whichever tab leads
+      // next pushes it even if this one closes first.
+      if (this.sync) {
+        await this.updateStoredPending(id, (pending) => [
+          ...pending,
+          update.slice(),
+        ]);
+      }
+    } else if (options.markPending) {
       const pending = [...entry.pendingSyncUpdates, update.slice()];
       await this.setPendingSyncState(entry, pending);
     }
@@ -235,8 +678,11 @@ export class WiserRuntime {
     await this.maybeSnapshot(entry);
   }
 
-  private async fetchAndApplyFromSync(entry: ManagedDoc<any>) {
-    const { sync } = this.config;
+  private async fetchAndApplyFromSync(
+    entry: ManagedDoc<any>,
+    pullBatch?: PullBatch
+  ) {
+    const { sync } = this;
     if (!sync) return;
 
     const shouldRequestSnapshot =
@@ -256,7 +702,15 @@ export class WiserRuntime {
     });
     let result: Uint8Array | null = null;
     try {
-      result = await sync.pull(entry.id, stateVector, pullOptions);
+      result = !this.ownsNetwork()
+        ? await this.tabs!.pull(entry.id, stateVector, pullOptions)
+        : pullBatch
+        ? await pullBatch.pull({
+            docId: entry.id,
+            stateVector,
+            options: pullOptions,
+          })
+        : await sync.pull(entry.id, stateVector, pullOptions);
     } catch (error) {
       this.emitSyncEvent({
         docId: entry.id,
@@ -280,12 +734,25 @@ export class WiserRuntime {
       return;
     }
 
-    const decoded = this.decode(result);
+    const decoded = await this.decodeOrSkip(entry.id, result, 'sync');
+    if (!decoded) {
+      this.emitSyncEvent({
+        docId: entry.id,
+        direction: 'pull',
+        phase: 'error',
+        requestSnapshot: shouldRequestSnapshot,
+        bytes: result.byteLength,
+      });
+      return;
+    }
     Y.applyUpdate(entry.doc, decoded, SYNC_ORIGIN);
     if (entry.data) {
       this.refreshModelData(entry);
     }
-    const snapshot = this.encode(Y.encodeStateAsUpdate(entry.doc));
+    const snapshot = await this.encode(
+      Y.encodeStateAsUpdate(entry.doc),
+      'storage'
+    );
     await this.storeSnapshot(entry, snapshot, {
       markSynced: true,
       resetCounters: true,
@@ -300,12 +767,15 @@ export class WiserRuntime {
     });
   }
 
-  private async syncOutgoingUpdate(
-    entry: ManagedDoc<any>,
-    update: Uint8Array
-  ): Promise<void> {
-    const { sync } = this.config;
-    if (!sync) return;
+  // Pushes every pending update in order, so whichever task runs first ships
+  // the backlog and later tasks find nothing left to send. Updates are merged
+  // into bounded batches and only dropped from the pending queue once their
+  // batch is acknowledged, so a crash mid-flush re-sends at most one batch.
+  private async pushPendingUpdates(entry: ManagedDoc<any>): Promise<void> {
+    const { sync } = this;
+    if (!sync || entry.pendingSyncUpdates.length === 0) return;
+    // Follower tabs forward their edits to the leader instead.
+    if (!this.ownsNetwork()) return;
 
     const shouldPullFirst = this.config.policies?.pullBeforePush !== false;
 
@@ -315,10 +785,134 @@ export class WiserRuntime {
 
     await this.syncSnapshotIfNeeded(entry);
 
-    await this.pushWithEvents(entry, update, { isSnapshot: false });
-    if (entry.pendingSyncUpdates.length > 0) {
-      const [, ...remaining] = entry.pendingSyncUpdates;
-      await this.setPendingSyncState(entry, remaining);
+    while (entry.pendingSyncUpdates.length > 0) {
+      const batch = this.nextPushBatch(entry.pendingSyncUpdates);
+      const payload =
+        batch.length === 1
+          ? await this.transcode(batch[0]!, 'storage', 'sync')
+          : await this.encode(
+              Y.mergeUpdates(
+                await Promise.all(
+                  batch.map((update) => this.decode(update, 'storage'))
+                )
+              ),
+              'sync'
+            );
+      await this.pushWithEvents(entry.id, payload, { isSnapshot: false });
+      // New updates only ever append, so the acknowledged ones are still first.
+      await this.setPendingSyncState(
+        entry,
+        entry.pendingSyncUpdates.slice(batch.length)
+      );
+    }
+  }
+
+  private nextPushBatch(pending: Uint8Array[]): Uint8Array[] {
+    const limits = this.config.policies?.pushBatch;
+    const maxUpdates = Math.max(
+      1,
+      limits?.maxUpdates ?? DEFAULT_PUSH_BATCH_MAX_UPDATES
+    );
+    const maxBytes = limits?.maxBytes ?? DEFAULT_PUSH_BATCH_MAX_BYTES;
+
+    const batch: Uint8Array[] = [];
+    let bytes = 0;
+    for (const update of pending) {
+      if (batch.length >= maxUpdates) break;
+      // Always take at least one update, even when it alone exceeds maxBytes.
+      if (batch.length > 0 && bytes + update.byteLength > maxBytes) break;
+      batch.push(update);
+      bytes += update.byteLength;
+    }
+    return batch;
+  }
+
+  private async pushPending(entry: ManagedDoc<any>): Promise<void> {
+    // A scheduled retry owns the backlog; pushing now would only fail again.
+    if (entry.retryTimer) return;
+    try {
+      await this.pushPendingUpdates(entry);
+      entry.retryAttempt = 0;
+    } catch (error) {
+      this.scheduleRetry(entry, error);
+      throw error;
+    }
+  }
+
+  private drainPending(entry: ManagedDoc<any>) {
+    this.enqueueSync(entry, async () => {
+      if (!this.connectivity.isOnline()) {
+        this.deferWhileOffline(entry);
+        return;
+      }
+      await this.pushPending(entry);
+    }).catch(() => undefined);
+  }
+
+  private resumePendingSync() {
+    if (!this.ownsNetwork()) return;
+    for (const entry of this.docs.values()) {
+      if (entry.pendingSyncUpdates.length === 0) continue;
+      this.clearRetry(entry);
+      entry.retryAttempt = 0;
+      this.drainPending(entry);
+    }
+  }
+
+  private deferWhileOffline(entry: ManagedDoc<any>) {
+    this.emitSyncEvent({
+      docId: entry.id,
+      direction: 'push',
+      phase: 'offline',
+    });
+  }
+
+  private retryPolicy(): Required<RetryPolicy> | null {
+    const policy = this.config.policies?.retry;
+    if (policy === false) return null;
+    return { ...DEFAULT_RETRY_POLICY, ...policy };
+  }
+
+  private scheduleRetry(entry: ManagedDoc<any>, error: unknown) {
+    const policy = this.retryPolicy();
+    if (!policy || entry.evicted || entry.retryTimer) return;
+    if (!this.connectivity.isOnline()) {
+      // The connectivity listener drains the backlog once we are back online.
+      this.deferWhileOffline(entry);
+      return;
+    }
+    if (entry.retryAttempt >= policy.maxAttempts) {
+      // Give up until the next mutation or manual sync.
+      entry.retryAttempt = 0;
+      return;
+    }
+
+    entry.retryAttempt += 1;
+    const base = Math.min(
+      policy.initialDelay * policy.multiplier ** (entry.retryAttempt - 1),
+      policy.maxDelay
+    );
+    const delay = Math.round(base * (1 - policy.jitter * Math.random()));
+    this.emitSyncEvent({
+      docId: entry.id,
+      direction: 'push',
+      phase: 'retry-scheduled',
+      attempt: entry.retryAttempt,
+      delay,
+      error,
+    });
+    entry.retryTimer = setTimeout(() => {
+      entry.retryTimer = null;
+      if (!entry.evicted) {
+        this.drainPending(entry);
+      }
+    }, delay);
+  }
+
+  private clearRetry(entry: ManagedDoc<any>) {
+    if (entry.retryTimer) {
+      clearTimeout(entry.retryTimer);
+      entry.retryTimer = null;
     }
   }
 
@@ -334,17 +928,34 @@ export class WiserRuntime {
     return next;
   }
 
+  private enqueuePersist(
+    entry: ManagedDoc<any>,
+    task: () => Promise<void>
+  ): Promise<void> {
+    const chain = entry.persistQueue ?? Promise.resolve();
+    const next = chain.then(task);
+    entry.persistQueue = next.catch(() => {
+      /* reported by the caller */
+    });
+    return next;
+  }
+
   private refreshModelData(entry: ManagedDoc<any>) {
     const latest = entry.model.ensureStructure(entry.doc);
     if (!entry.data) {
       entry.data = latest;
-      return;
+    } else {
+      for (const key of Object.keys(latest)) {
+        (entry.data as Record<string, unknown>)[key] = (latest as Record<
+          string,
+          unknown
+        >)[key];
+      }
     }
-    for (const key of Object.keys(latest)) {
-      (entry.data as Record<string, unknown>)[key] = (latest as Record<
-        string,
-        unknown
-      >)[key];
+    // Concurrent scaffolding can swap the shared types behind scoped keys.
+    const keys = entry.model.undo?.keys;
+    if (entry.undoManager && keys) {
+      entry.undoManager.addToScope(this.undoScope(entry, keys));
     }
   }
 
@@ -373,14 +984,14 @@ export class WiserRuntime {
   }
 
   private async syncSnapshotIfNeeded(entry: ManagedDoc<any>): Promise<void> {
-    const { sync } = this.config;
+    const { sync } = this;
     if (!sync) return;
 
-    let snapshotPayload: Uint8Array | null = null;
+    let state: Uint8Array | null = null;
 
     if (entry.snapshotGeneration === 0) {
-      snapshotPayload = this.encode(Y.encodeStateAsUpdate(entry.doc));
-      await this.storeSnapshot(entry, snapshotPayload, {
+      state = Y.encodeStateAsUpdate(entry.doc);
+      await this.storeSnapshot(entry, await this.encode(state, 'storage'), {
         markSynced: false,
         resetCounters: true,
       });
@@ -398,11 +1009,11 @@ export class WiserRuntime {
       return;
     }
 
-    if (!snapshotPayload) {
-      snapshotPayload = this.encode(Y.encodeStateAsUpdate(entry.doc));
-    }
-
-    await this.pushWithEvents(entry, snapshotPayload, { isSnapshot: true });
+    const snapshotPayload = await this.encode(
+      state ?? Y.encodeStateAsUpdate(entry.doc),
+      'sync'
+    );
+    await this.pushWithEvents(entry.id, snapshotPayload, { isSnapshot: true });
     entry.syncedSnapshotGeneration = entry.snapshotGeneration;
     if (this.storage.markSnapshotSynced) {
       await this.storage.markSnapshotSynced(
@@ -426,11 +1037,24 @@ export class WiserRuntime {
 
     if (!shouldSnapshot) return;
 
-    const encoded = this.encode(Y.encodeStateAsUpdate(entry.doc));
+    const encoded = await this.encode(
+      Y.encodeStateAsUpdate(entry.doc),
+      'storage'
+    );
     await this.storeSnapshot(entry, encoded, {
       markSynced: false,
       resetCounters: true,
     });
+    await this.compactStorage(entry);
+  }
+
+  private async compactStorage(entry: ManagedDoc<any>): Promise<void> {
+    // Without a persisted snapshot the update log is the only copy of history.
+    if (!this.storage.compact || !this.storage.setSnapshot) return;
+    // Other tabs append to the same log, and their updates may not be in the
+    // snapshot this tab just wrote.
+    if (this.tabs) return;
+    await this.storage.compact(entry.id, entry.snapshotGeneration);
   }
 
   private async storeSnapshot(
@@ -464,12 +1088,113 @@ export class WiserRuntime {
     }
   }
 
-  private encode(update: Uint8Array): Uint8Array {
-    return this.config.codec ? this.config.codec.encode(update) : update;
+  private async encode(
+    update: Uint8Array,
+    channel: CodecChannel
+  ): Promise<Uint8Array> {
+    const codec = this.codecs[channel];
+    return codec ? codec.encode(update) : update;
   }
 
-  private decode(update: Uint8Array): Uint8Array {
-    return this.config.codec ? this.config.codec.decode(update) : update;
+  private async decode(
+    payload: Uint8Array,
+    channel: CodecChannel
+  ): Promise<Uint8Array> {
+    const codec = this.codecs[channel];
+    return codec ? codec.decode(payload) : payload;
+  }
+
+  // Moves a payload across a boundary, skipping the round trip when both
+  // channels share a codec.
+  private async transcode(
+    payload: Uint8Array,
+    from: CodecChannel,
+    to: CodecChannel
+  ): Promise<Uint8Array> {
+    if (this.codecs[from] === this.codecs[to]) {
+      return payload;
+    }
+    return this.encode(await this.decode(payload, from), to);
+  }
+
+  // A corrupt payload is reported against its document and skipped so the
+  // rest of the document still hydrates; any other decode failure propagates.
+  private async decodeOrSkip(
+    docId: string,
+    payload: Uint8Array,
+    channel: CodecChannel
+  ): Promise<Uint8Array | null> {
+    try {
+      return await this.decode(payload, channel);
+    } catch (error) {
+      if (!(error instanceof CorruptPayloadError)) {
+        throw error;
+      }
+      this.reportCorruptPayload(docId, error);
+      return null;
+    }
+  }
+
+  private reportCorruptPayload(docId: string, error: CorruptPayloadError) {
+    error.docId ??= docId;
+    this.reportError(error);
+  }
+
+  // Inbound realtime payloads apply as soon as they decode. Async codecs go
+  // through a per-document chain so updates still apply in arrival order.
+  private applyInbound(
+    entry: ManagedDoc<any>,
+    incoming: Uint8Array,
+    apply: (decoded: Uint8Array) => void
+  ) {
+    try {
+      const codec = this.codecs.realtime;
+      const decoded = codec ? codec.decode(incoming) : incoming;
+      if (!entry.inboundQueue && !isPromiseLike(decoded)) {
+        apply(decoded);
+        return;
+      }
+      const run = (entry.inboundQueue ?? Promise.resolve())
+        .then(() => decoded)
+        .then(apply)
+        .catch((error) => this.reportInboundError(entry, error));
+      entry.inboundQueue = run;
+      run.finally(() => {
+        if (entry.inboundQueue === run) {
+          entry.inboundQueue = null;
+        }
+      });
+    } catch (error) {
+      this.reportInboundError(entry, error);
+    }
+  }
+
+  private reportInboundError(entry: ManagedDoc<any>, error: unknown) {
+    if (error instanceof CorruptPayloadError) {
+      this.reportCorruptPayload(entry.id, error);
+      return;
+    }
+    this.reportError(error);
+  }
+
+  // Followers receive realtime updates through the leader tab, which holds
+  // the only connection; presence is not relayed between tabs.
+  private connectRealtime(entry: ManagedDoc<any>) {
+    if (!this.ownsNetwork()) {
+      entry.realtimeUnsubscribe = this.config.realtime
+        ? this.tabs!.watch(entry.id)
+        : null;
+      return;
+    }
+    entry.realtimeUnsubscribe = this.subscribeRealtime(entry);
+    entry.awarenessUnsubscribe = this.subscribeAwareness(entry);
+  }
+
+  private disconnectRealtime(entry: ManagedDoc<any>) {
+    entry.realtimeUnsubscribe?.();
+    entry.realtimeUnsubscribe = null;
+    entry.awarenessUnsubscribe?.();
+    entry.awarenessUnsubscribe = null;
   }
 
   private subscribeRealtime(entry: ManagedDoc<any>): (() => void) | null {
@@ -477,15 +1202,28 @@ export class WiserRuntime {
     if (!adapter) return null;
 
     try {
-      const unsubscribe = adapter.subscribe(entry.id, (incoming) => {
-        try {
-          const decoded = this.decode(incoming);
-          Y.applyUpdate(entry.doc, decoded, REALTIME_ORIGIN);
-          this.refreshModelData(entry);
-        } catch (error) {
-          this.reportError(error);
+      const unsubscribe = adapter.subscribe(
+        entry.id,
+        (incoming, meta) => {
+          if (meta && !this.trackRealtimeSequence(entry, meta)) return;
+          this.applyInbound(entry, incoming, (decoded) => {
+            Y.applyUpdate(entry.doc, decoded, REALTIME_ORIGIN);
+            this.refreshModelData(entry);
+          });
+        },
+        {
+          getStateVector: () => Y.encodeStateVector(entry.doc),
+          encodeStateAsUpdate: async (stateVector) =>
+            this.encode(
+              Y.encodeStateAsUpdate(entry.doc, stateVector),
+              'realtime'
+            ),
+          resync: () => {
+            entry.peerSequences.clear();
+            this.catchUp(entry);
+          },
         }
-      });
+      );
       return unsubscribe;
     } catch (error) {
       this.reportError(error);
@@ -493,14 +1231,110 @@ export class WiserRuntime {
     }
   }
 
-  private async publishRealtime(
+  // Drops echoes of our own publishes. A peer skipping a sequence number means
+  // one of its updates never arrived, so pull the document to catch up. Lower
+  // numbers are still applied: transports may reorder and Yjs updates are
+  // idempotent.
+  private trackRealtimeSequence(
     entry: ManagedDoc<any>,
+    meta: RealtimeUpdateMeta
+  ): boolean {
+    if (meta.clientId === this.clientId) return false;
+    const last = entry.peerSequences.get(meta.clientId);
+    if (last === undefined || meta.seq > last) {
+      entry.peerSequences.set(meta.clientId, meta.seq);
+    }
+    if (last !== undefined && meta.seq > last + 1) {
+      this.catchUp(entry);
+    }
+    return true;
+  }
+
+  private catchUp(entry: ManagedDoc<any>) {
+    if (!this.sync || entry.catchUpQueued || entry.evicted) return;
+    entry.catchUpQueued = true;
+    this.enqueueSync(entry, async () => {
+      entry.catchUpQueued = false;
+      if (entry.evicted || !this.connectivity.isOnline()) return;
+      await this.fetchAndApplyFromSync(entry);
+    }).catch(() => undefined);
+  }
+
+  private subscribeAwareness(entry: ManagedDoc<any>): (() => void) | null {
+    const adapter = this.config.realtime;
+    if (!adapter?.publishAwareness || !adapter.subscribeAwareness) {
+      return null;
+    }
+    const { awareness } = entry;
+
+    const send = (update: Uint8Array) =>
+      adapter.publishAwareness!(entry.id, update);
+    const publish = (clients: number[]) => {
+      try {
+        const raw = encodeAwarenessUpdate(awareness, clients);
+        const codec = this.codecs.realtime;
+        const encoded = codec ? codec.encode(raw) : raw;
+        const sent = isPromiseLike(encoded)
+          ? Promise.resolve(encoded).then(send)
+          : send(encoded);
+        sent.catch((error) => this.reportError(error));
+      } catch (error) {
+        this.reportError(error);
+      }
+    };
+
+    const handleLocalUpdate = (
+      changes: { added: number[]; updated: number[]; removed: number[] },
+      origin: unknown
+    ) => {
+      if (origin !== 'local') return;
+      publish([...changes.added, ...changes.updated, ...changes.removed]);
+    };
+
+    // Newcomers only learn about existing peers when those peers speak, so
+    // answer unknown clients with our current state.
+    const handleRemoteChange = (
+      changes: { added: number[]; updated: number[]; removed: number[] },
+      origin: unknown
+    ) => {
+      if (origin !== REALTIME_ORIGIN || changes.added.length === 0) return;
+      if (awareness.getLocalState() !== null) {
+        publish([awareness.clientID]);
+      }
+    };
+
+    awareness.on('update', handleLocalUpdate);
+    awareness.on('change', handleRemoteChange);
+
+    let unsubscribe: () => void;
+    try {
+      unsubscribe = adapter.subscribeAwareness(entry.id, (incoming) => {
+        this.applyInbound(entry, incoming, (decoded) => {
+          applyAwarenessUpdate(awareness, decoded, REALTIME_ORIGIN);
+        });
+      });
+    } catch (error) {
+      this.reportError(error);
+      unsubscribe = () => undefined;
+    }
+
+    return () => {
+      awareness.off('update', handleLocalUpdate);
+      awareness.off('change', handleRemoteChange);
+      unsubscribe();
+    };
+  }
+
+  private async publishRealtime(
+    docId: string,
     update: Uint8Array
   ): Promise<void> {
     const adapter = this.config.realtime;
     if (!adapter) return;
 
-    await adapter.publish(entry.id, update);
+    const seq = (this.publishedSequences.get(docId) ?? 0) + 1;
+    this.publishedSequences.set(docId, seq);
+    await adapter.publish(docId, update, { clientId: this.clientId, seq });
   }
 
   private reportError(error: unknown) {
@@ -524,25 +1358,271 @@ export class WiserRuntime {
     }
   }
 
+  private bindSyncCursorStore(
+    sync: SyncAdapter | undefined
+  ): SyncAdapter | undefined {
+    const { storage } = this;
+    if (
+      !sync?.withCursorStore ||
+      !storage.getSyncCursor ||
+      !storage.setSyncCursor
+    ) {
+      return sync;
+    }
+    return sync.withCursorStore({
+      get: (docId, adapterKey) => storage.getSyncCursor!(docId, adapterKey),
+      set: (docId, adapterKey, cursor) =>
+        storage.setSyncCursor!(docId, adapterKey, cursor),
+    });
+  }
+
+  private ownsNetwork(): boolean {
+    return !this.tabs || this.tabs.isLeader();
+  }
+
+  private createTabCoordinator(options: TabCoordinationOptions): TabCoordinator {
+    return createTabCoordinator(options, {
+      acceptForwarded: (docId, update) => this.acceptForwarded(docId, update),
+      pull: async (docId, stateVector, pullOptions) =>
+        this.sync
+          ? this.sync.pull(docId, stateVector, pullOptions)
+          : null,
+      watch: (docId) => this.relayRealtime(docId),
+      applyRemote: (docId, update, persisted) => {
+        const apply = (entry: ManagedDoc<any>) => {
+          if (entry.evicted) return;
+          // Updates the sender did not store are persisted like any realtime update.
+          Y.applyUpdate(entry.doc, update, persisted ? TAB_ORIGIN : REALTIME_ORIGIN);
+          this.refreshModelData(entry);
+        };
+        const entry = this.docs.get(docId);
+        if (entry) {
+          apply(entry);
+          return;
+        }
+        this.loading
+          .get(docId)
+          ?.then(apply)
+          .catch(() => undefined);
+      },
+      realtimeStatus: () => this.ownRealtimeStatus,
+      leaderRealtimeStatusChanged: (state) => {
+        this.leaderRealtimeStatus = state;
+        this.refreshRealtimeStatus();
+      },
+      leadershipChanged: (isLeader) => this.handleLeadershipChange(isLeader),
+      onError: (error) => this.reportError(error),
+    });
+  }
+
+  private handleLeadershipChange(isLeader: boolean) {
+    this.refreshRealtimeStatus();
+    for (const entry of this.docs.values()) {
+      this.disconnectRealtime(entry);
+      this.connectRealtime(entry);
+      if (!isLeader) {
+        this.clearRetry(entry);
+        continue;
+      }
+      // The previous leader owned the backlog; pick it up from storage.
+      this.enqueuePersist(entry, async () => {
+        const stored = await assembleStoredDoc(this.storage, entry.id);
+        entry.pendingSyncUpdates = stored?.pendingSync ?? [];
+      })
+        .then(() => {
+          if (entry.pendingSyncUpdates.length > 0 && this.sync) {
+            this.drainPending(entry);
+          }
+        })
+        .catch((error) => this.reportError(error));
+    }
+  }
+
+  // Takes over an edit a follower tab already wrote to the shared storage.
+  private async acceptForwarded(docId: string, update: Uint8Array) {
+    const entry =
+      this.docs.get(docId) ??
+      (await this.loading.get(docId)?.catch(() => undefined));
+    if (!entry || entry.evicted) {
+      await this.forwardUnloaded(docId, update);
+      return;
+    }
+    const encoded = await this.encode(update, 'storage');
+    const marked = this.enqueuePersist(entry, async () => {
+      if (this.sync) {
+        await this.setPendingSyncState(
+          entry,
+          withPending(entry.pendingSyncUpdates, encoded)
+        );
+      }
+    });
+    this.queueOutbound(entry, marked, () =>
+      this.transcode(encoded, 'storage', 'realtime')
+    );
+    await marked;
+  }
+
+  // Documents only a follower has open have no entry here, so their edits are
+  // queued in storage directly. A failed push leaves them pending for the next
+  // time this tab loads the document.
+  private forwardUnloaded(docId: string, update: Uint8Array): Promise<void> {
+    const task = (this.outbox.get(docId) ?? Promise.resolve()).then(
+      async () => {
+        const { sync } = this;
+        if (sync) {
+          const encoded = await this.encode(update, 'storage');
+          await this.updateStoredPending(docId, (pending) =>
+            withPending(pending, encoded)
+          );
+          if (!this.connectivity.isOnline()) return;
+          try {
+            const sentState = await this.syncStoredSnapshot(docId);
+            if (!sentState) {
+              await this.pushWithEvents(
+                docId,
+                await this.transcode(encoded, 'storage', 'sync'),
+                { isSnapshot: false }
+              );
+            }
+          } catch (error) {
+            this.reportError(error);
+            return;
+          }
+          await this.updateStoredPending(docId, (pending) =>
+            pending.filter((item) => !equalBytes(item, encoded))
+          );
+        }
+        await this.publishRealtime(docId, await this.encode(update, 'realtime'));
+      }
+    );
+    const settled = task.catch(() => undefined);
+    this.outbox.set(docId, settled);
+    settled.then(() => {
+      if (this.outbox.get(docId) === settled) {
+        this.outbox.delete(docId);
+      }
+    });
+    return task;
+  }
+
+  // syncSnapshotIfNeeded() for a document that is only in storage: the server
+  // gets the full state once before it receives plain updates. Returns whether
+  // the state was pushed.
+  private async syncStoredSnapshot(docId: string): Promise<boolean> {
+    const stored = await assembleStoredDoc(this.storage, docId);
+    if (!stored) return false;
+    const generation =
+      stored.snapshotGeneration ?? (stored.snapshot ? 1 : 0);
+    const synced = stored.syncedSnapshotGeneration ?? 0;
+    if (generation > 0 && generation <= synced) return false;
+    const sendPolicy = this.config.policies?.snapshotSync?.send;
+    if (sendPolicy === false && synced > 0) return false;
+
+    const doc = new Y.Doc({ gc: this.config.policies?.gc ?? false });
+    for (const payload of [stored.snapshot, ...stored.updates]) {
+      const decoded = payload
+        ? await this.decodeOrSkip(docId, payload, 'storage')
+        : null;
+      if (decoded) Y.applyUpdate(doc, decoded);
+    }
+    const state = Y.encodeStateAsUpdate(doc);
+    doc.destroy();
+
+    let syncedGeneration = generation;
+    if (generation === 0 && this.storage.setSnapshot) {
+      await this.storage.setSnapshot(docId, await this.encode(state, 'storage'));
+      syncedGeneration =
+        (await this.storage.getSnapshot?.(docId))?.snapshotGeneration ?? 0;
+    }
+    await this.pushWithEvents(docId, await this.encode(state, 'sync'), {
+      isSnapshot: true,
+    });
+    if (syncedGeneration > 0 && this.storage.markSnapshotSynced) {
+      await this.storage.markSnapshotSynced(docId, syncedGeneration);
+    }
+    return true;
+  }
+
+  private async updateStoredPending(
+    docId: string,
+    change: (pending: Uint8Array[]) => Uint8Array[]
+  ) {
+    const stored = await assembleStoredDoc(this.storage, docId);
+    const next = change(stored?.pendingSync ?? []);
+    if (next.length === 0 && this.storage.clearPendingSync) {
+      await this.storage.clearPendingSync(docId);
+    } else if (this.storage.markPendingSync) {
+      await this.storage.markPendingSync(docId, next);
+    } else {
+      this.warnMissingStorageMethod('markPendingSync');
+    }
+  }
+
+  // Relays realtime updates to followers for a document this tab has not
+  // loaded; once it is loaded, its own update handler broadcasts them.
+  private relayRealtime(docId: string): () => void {
+    const adapter = this.config.realtime;
+    if (!adapter) return () => undefined;
+    try {
+      return adapter.subscribe(docId, (incoming, meta) => {
+        if (this.docs.has(docId) || meta?.clientId === this.clientId) return;
+        this.decodeOrSkip(docId, incoming, 'realtime')
+          .then((decoded) => {
+            if (decoded) {
+              this.tabs?.broadcast(docId, decoded, { persisted: false });
+            }
+          })
+          .catch((error) => this.reportError(error));
+      });
+    } catch (error) {
+      this.reportError(error);
+      return () => undefined;
+    }
+  }
+
+  private createPushCoalescer(): PushCoalescer | null {
+    const { sync } = this;
+    const { policies } = this.config;
+    const coalesce = policies?.pushCoalesce;
+    if (!sync?.pushMany || !coalesce) {
+      return null;
+    }
+    return createPushCoalescer(sync.pushMany.bind(sync), {
+      window: coalesce.window ?? DEFAULT_PUSH_COALESCE_WINDOW,
+      maxDocuments: Math.max(
+        1,
+        coalesce.maxDocuments ?? DEFAULT_PUSH_COALESCE_MAX_DOCUMENTS
+      ),
+    });
+  }
+
   private async pushWithEvents(
-    entry: ManagedDoc<any>,
+    docId: string,
     update: Uint8Array,
     options: { isSnapshot: boolean }
   ): Promise<void> {
-    const { sync } = this.config;
+    const { sync } = this;
     if (!sync) return;
 
     this.emitSyncEvent({
-      docId: entry.id,
+      docId,
       direction: 'push',
       phase: 'start',
       isSnapshot: options.isSnapshot,
       bytes: update.byteLength,
     });
     try {
-      await sync.push(entry.id, update, { isSnapshot: options.isSnapshot });
+      if (this.pushCoalescer) {
+        await this.pushCoalescer.push({
+          docId,
+          update,
+          options: { isSnapshot: options.isSnapshot },
+        });
+      } else {
+        await sync.push(docId, update, { isSnapshot: options.isSnapshot });
+      }
       this.emitSyncEvent({
-        docId: entry.id,
+        docId,
         direction: 'push',
         phase: 'success',
         isSnapshot: options.isSnapshot,
@@ -550,7 +1630,7 @@ export class WiserRuntime {
       });
     } catch (error) {
       this.emitSyncEvent({
-        docId: entry.id,
+        docId,
         direction: 'push',
         phase: 'error',
         isSnapshot: options.isSnapshot,
@@ -567,7 +1647,9 @@ export class WiserRuntime {
   ): Promise<void> {
     const { pull = true, push = true, forceSnapshot = false } = options ?? {};
 
-    if (!this.config.sync) {
+    this.assertNotEvicted(entry);
+
+    if (!this.sync) {
       return;
     }
 
@@ -576,24 +1658,94 @@ export class WiserRuntime {
         await this.fetchAndApplyFromSync(entry);
       }
 
-      if (push) {
+      if (push && this.ownsNetwork()) {
         if (forceSnapshot) {
-          const encoded = this.encode(Y.encodeStateAsUpdate(entry.doc));
+          const encoded = await this.encode(
+            Y.encodeStateAsUpdate(entry.doc),
+            'storage'
+          );
           await this.storeSnapshot(entry, encoded, {
             markSynced: false,
           });
         }
 
         await this.syncSnapshotIfNeeded(entry);
-
-        const pendingQueue = entry.pendingSyncUpdates.slice();
-        for (const pending of pendingQueue) {
-          await this.syncOutgoingUpdate(entry, pending);
-        }
+        await this.pushPendingUpdates(entry);
+        this.clearRetry(entry);
+        entry.retryAttempt = 0;
       }
     });
   }
 
+  /**
+   * Presence for a loaded document, or `null` when it is not hydrated. Pair with
+   * `onDocumentLoaded` to pick up documents loaded (or reloaded after eviction) later.
+   */
+  getAwareness(id: string): Awareness | null {
+    return this.docs.get(id)?.awareness ?? null;
+  }
+
+  /**
+   * Undo manager for a loaded document, or `null` when it is not hydrated.
+   */
+  getUndoManager(id: string): Y.UndoManager | null {
+    return this.docs.get(id)?.undoManager ?? null;
+  }
+
+  onDocumentLoaded(listener: (docId: string) => void): () => void {
+    this.loadListeners.add(listener);
+    return () => {
+      this.loadListeners.delete(listener);
+    };
+  }
+
+  private emitDocumentLoaded(docId: string) {
+    for (const listener of this.loadListeners) {
+      try {
+        listener(docId);
+      } catch (error) {
+        this.reportError(error);
+      }
+    }
+  }
+
+  /**
+   * Connection state of the realtime adapter, or `null` when the adapter does
+   * not report one (no `onStatusChange`). With `tabs`, follower tabs report the
+   * leader's connection, since the leader holds it for every tab.
+   */
+  getRealtimeStatus(): RealtimeConnectionState | null {
+    return this.realtimeStatus;
+  }
+
+  onRealtimeStatusChange(
+    listener: (state: RealtimeConnectionState) => void
+  ): () => void {
+    this.realtimeStatusListeners.add(listener);
+    return () => {
+      this.realtimeStatusListeners.delete(listener);
+    };
+  }
+
+  private refreshRealtimeStatus() {
+    const state = this.ownsNetwork()
+      ? this.ownRealtimeStatus
+      : this.leaderRealtimeStatus;
+    if (state) this.setRealtimeStatus(state);
+  }
+
+  private setRealtimeStatus(state: RealtimeConnectionState) {
+    if (this.realtimeStatus === state) return;
+    this.realtimeStatus = state;
+    for (const listener of this.realtimeStatusListeners) {
+      try {
+        listener(state);
+      } catch (error) {
+        this.reportError(error);
+      }
+    }
+  }
+
   onSyncEvent(listener: (event: WiserSyncEvent) => void): () => void {
     this.syncListeners.add(listener);
     return () => {
@@ -630,4 +1782,50 @@ export class WiserRuntime {
     }
     await this.syncDocument(entry, options);
   }
+
+  /**
+   * Stops listening to every loaded document and, with `tabs`, leaves the
+   * election so another tab can take over. Pending work stays in storage.
+   */
+  dispose(): void {
+    for (const entry of this.docs.values()) {
+      entry.evicted = true;
+      this.detach(entry);
+    }
+    this.docs.clear();
+    this.tabs?.dispose();
+    this.unsubscribeRealtimeStatus?.();
+    this.unsubscribeConnectivity?.();
+  }
+}
+
+function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.byteLength !== b.byteLength) return false;
+  for (let i = 0; i < a.byteLength; i += 1) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+}
+
+// The follower that forwarded an edit may already have queued the same bytes.
+function withPending(pending: Uint8Array[], update: Uint8Array): Uint8Array[] {
+  return pending.some((item) => equalBytes(item, update))
+    ? pending
+    : [...pending, update];
+}
+
+function isPromiseLike<T>(value: T | PromiseLike<T>): value is PromiseLike<T> {
+  return typeof (value as PromiseLike<T> | null)?.then === 'function';
+}
+
+function resolveChannelCodecs(
+  codec: CodecAdapter | ChannelCodecs | undefined
+): ChannelCodecs {
+  if (!codec) {
+    return {};
+  }
+  if ('encode' in codec && typeof codec.encode === 'function') {
+    return { storage: codec, sync: codec, realtime: codec };
+  }
+  return codec as ChannelCodecs;
 }
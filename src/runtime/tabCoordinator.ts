@@ -0,0 +1,500 @@
+import { toClonedBytes } from '../realtime/clonedBytes';
+import { createRandomId } from '../realtime/randomId';
+import type {
+  LeaderElection,
+  RealtimeConnectionState,
+  SyncPullOptions,
+  TabCoordinationOptions,
+} from '../types';
+import { createLeaderElection } from './leaderElection';
+
+type TabMessage =
+  | { type: 'hello'; sender: string }
+  | { type: 'leader'; sender: string }
+  | {
+      type: 'update';
+      sender: string;
+      docId: string;
+      update: Uint8Array;
+      // Whether the sender already wrote the update to the shared storage.
+      persisted: boolean;
+      // Set on follower edits, which the leader acknowledges once it owns them.
+      seq?: number;
+    }
+  | { type: 'ack'; sender: string; target: string; seq: number }
+  | {
+      type: 'pull';
+      sender: string;
+      requestId: number;
+      docId: string;
+      stateVector?: Uint8Array;
+      options?: SyncPullOptions;
+    }
+  | {
+      type: 'pull-result';
+      sender: string;
+      target: string;
+      requestId: number;
+      result: Uint8Array | null;
+      error?: string;
+    }
+  | { type: 'watch' | 'unwatch'; sender: string; docId: string }
+  | { type: 'status'; sender: string; state: RealtimeConnectionState | null };
+
+type PendingPull = {
+  message: Extract<TabMessage, { type: 'pull' }>;
+  resolve(result: Uint8Array | null): void;
+  reject(error: unknown): void;
+  timer: ReturnType<typeof setTimeout>;
+};
+
+export type TabCoordinatorHandlers = {
+  /**
+   * Leader only: take over a follower's edit (queue it for sync). The follower
+   * is acknowledged once the returned promise resolves.
+   */
+  acceptForwarded(docId: string, update: Uint8Array): Promise<void>;
+  /**
+   * Leader only: run a pull on behalf of a follower.
+   */
+  pull(
+    docId: string,
+    stateVector: Uint8Array | undefined,
+    options: SyncPullOptions | undefined
+  ): Promise<Uint8Array | null>;
+  /**
+   * Leader only: start relaying realtime updates for a document a follower has
+   * open. Returns the function that stops relaying.
+   */
+  watch(docId: string): () => void;
+  /**
+   * Apply an update another tab broadcast.
+   */
+  applyRemote(docId: string, update: Uint8Array, persisted: boolean): void;
+  /**
+   * Leader only: connection state of this tab's realtime adapter.
+   */
+  realtimeStatus(): RealtimeConnectionState | null;
+  /**
+   * Follower only: the leader's realtime connection state changed.
+   */
+  leaderRealtimeStatusChanged(state: RealtimeConnectionState | null): void;
+  leadershipChanged(isLeader: boolean): void;
+  onError(error: unknown): void;
+};
+
+export type TabCoordinator = {
+  isLeader(): boolean;
+  /**
+   * Share an update with the other tabs. From a follower, `forward` marks an
+   * edit the leader has to sync; it is re-sent until the leader acknowledges it.
+   */
+  broadcast(
+    docId: string,
+    update: Uint8Array,
+    options: { persisted: boolean; forward?: boolean }
+  ): void;
+  /**
+   * Pull through the leader, waiting for one to be elected if needed.
+   */
+  pull(
+    docId: string,
+    stateVector: Uint8Array | undefined,
+    options: SyncPullOptions | undefined
+  ): Promise<Uint8Array | null>;
+  /**
+   * Ask the leader to relay realtime updates for `docId` to this tab.
+   */
+  watch(docId: string): () => void;
+  /**
+   * From the leader, tell the followers its realtime connection state changed.
+   */
+  announceRealtimeStatus(): void;
+  dispose(): void;
+};
+
+const DEFAULT_REQUEST_TIMEOUT = 10_000;
+const MAX_FORWARD_RETRY_DELAY = 60_000;
+// Watches not renewed for this many request timeouts are dropped.
+const WATCH_EXPIRY_TIMEOUTS = 3;
+
+export function createTabCoordinator(
+  options: TabCoordinationOptions,
+  handlers: TabCoordinatorHandlers
+): TabCoordinator {
+  const {
+    namespace,
+    BroadcastChannel: BroadcastChannelImpl = (globalThis as typeof globalThis & {
+      BroadcastChannel?: TabCoordinationOptions['BroadcastChannel'];
+    }).BroadcastChannel,
+    requestTimeout = DEFAULT_REQUEST_TIMEOUT,
+  } = options;
+
+  if (!BroadcastChannelImpl) {
+    throw new Error(
+      '[sync-wiser][tabs] A BroadcastChannel implementation must be provided (global BroadcastChannel is not available).'
+    );
+  }
+
+  const election: LeaderElection =
+    options.election ??
+    createLeaderElection({
+      name: `sync-wiser-leader:${namespace}`,
+      BroadcastChannel: BroadcastChannelImpl,
+      onError: handlers.onError,
+    });
+  const tabId = createRandomId();
+  const channel = new BroadcastChannelImpl(`sync-wiser-tabs:${namespace}`);
+  const unacked = new Map<number, Extract<TabMessage, { type: 'update' }>>();
+  const pendingPulls = new Map<number, PendingPull>();
+  const watching = new Map<string, number>();
+  // Leader side: forwarded edits being taken over, so repeats are not queued twice.
+  const accepting = new Set<string>();
+  // Leader side: followers watching each document (with when they last renewed
+  // the watch), and the relay serving them.
+  const watchers = new Map<
+    string,
+    { tabs: Map<string, number>; stop: () => void }
+  >();
+  let nextSeq = 1;
+  let nextRequestId = 1;
+  let disposed = false;
+  let forwardRetry: ReturnType<typeof setTimeout> | null = null;
+  let forwardRetryDelay = requestTimeout;
+  let watchRenewal: ReturnType<typeof setInterval> | null = null;
+
+  const post = (message: TabMessage) => {
+    if (disposed) return;
+    channel.postMessage(message);
+  };
+
+  const postStatus = () => {
+    post({ type: 'status', sender: tabId, state: handlers.realtimeStatus() });
+  };
+
+  // Follower side: repeat unacknowledged edits, waiting twice as long after
+  // each attempt, until the leader acknowledges every one of them.
+  const scheduleForwardRetry = (restart = false) => {
+    if (restart) {
+      if (forwardRetry) clearTimeout(forwardRetry);
+      forwardRetry = null;
+      forwardRetryDelay = requestTimeout;
+    }
+    if (disposed || forwardRetry || unacked.size === 0) return;
+    forwardRetry = setTimeout(() => {
+      forwardRetry = null;
+      if (unacked.size === 0 || election.isLeader()) return;
+      for (const message of unacked.values()) {
+        post(message);
+      }
+      forwardRetryDelay = Math.min(forwardRetryDelay * 2, MAX_FORWARD_RETRY_DELAY);
+      scheduleForwardRetry();
+    }, forwardRetryDelay);
+  };
+
+  const acknowledge = (seq: number) => {
+    unacked.delete(seq);
+    if (unacked.size === 0) scheduleForwardRetry(true);
+  };
+
+  const acceptForwarded = (
+    message: Extract<TabMessage, { type: 'update' }>
+  ) => {
+    const key = `${message.sender}:${message.seq}`;
+    if (accepting.has(key)) return;
+    accepting.add(key);
+    handlers
+      .acceptForwarded(message.docId, toBytes(message.update))
+      .finally(() => accepting.delete(key))
+      .then(() => {
+        if (message.sender === tabId) {
+          acknowledge(message.seq!);
+          return;
+        }
+        post({ type: 'ack', sender: tabId, target: message.sender, seq: message.seq! });
+      })
+      .catch(handlers.onError);
+  };
+
+  const servePull = (message: Extract<TabMessage, { type: 'pull' }>) => {
+    handlers
+      .pull(
+        message.docId,
+        message.stateVector ? toBytes(message.stateVector) : undefined,
+        message.options
+      )
+      .then(
+        (result) => ({ result }),
+        (error: unknown) => ({
+          result: null,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      )
+      .then((outcome) => {
+        post({
+          type: 'pull-result',
+          sender: tabId,
+          target: message.sender,
+          requestId: message.requestId,
+          ...outcome,
+        });
+      });
+  };
+
+  const addWatcher = (docId: string, tab: string) => {
+    let watcher = watchers.get(docId);
+    if (!watcher) {
+      watcher = { tabs: new Map(), stop: handlers.watch(docId) };
+      watchers.set(docId, watcher);
+    }
+    watcher.tabs.set(tab, Date.now());
+    updateWatchRenewal();
+  };
+
+  const removeWatcher = (docId: string, tab: string) => {
+    const watcher = watchers.get(docId);
+    if (!watcher) return;
+    watcher.tabs.delete(tab);
+    if (watcher.tabs.size === 0) {
+      watchers.delete(docId);
+      watcher.stop();
+    }
+    updateWatchRenewal();
+  };
+
+  const stopWatchers = () => {
+    for (const watcher of watchers.values()) {
+      watcher.stop();
+    }
+    watchers.clear();
+    updateWatchRenewal();
+  };
+
+  // Followers renew their watches every `requestTimeout`. The leader drops the
+  // ones a tab stopped renewing, e.g. because it closed without an 'unwatch'.
+  const renewWatches = () => {
+    if (election.isLeader()) {
+      const expiredBefore = Date.now() - requestTimeout * WATCH_EXPIRY_TIMEOUTS;
+      for (const [docId, watcher] of Array.from(watchers)) {
+        for (const [tab, renewedAt] of Array.from(watcher.tabs)) {
+          if (renewedAt < expiredBefore) removeWatcher(docId, tab);
+        }
+      }
+      return;
+    }
+    for (const docId of watching.keys()) {
+      post({ type: 'watch', sender: tabId, docId });
+    }
+  };
+
+  const updateWatchRenewal = () => {
+    const needed = !disposed && (watching.size > 0 || watchers.size > 0);
+    if (needed && !watchRenewal) {
+      watchRenewal = setInterval(renewWatches, requestTimeout);
+    } else if (!needed && watchRenewal) {
+      clearInterval(watchRenewal);
+      watchRenewal = null;
+    }
+  };
+
+  // A new leader has not seen anything this tab sent to its predecessor, so
+  // repeat every unacknowledged edit, open pull and watch.
+  const resendToLeader = () => {
+    for (const message of unacked.values()) {
+      post(message);
+    }
+    scheduleForwardRetry(true);
+    for (const pending of pendingPulls.values()) {
+      post(pending.message);
+    }
+    for (const docId of watching.keys()) {
+      post({ type: 'watch', sender: tabId, docId });
+    }
+  };
+
+  const handleMessage = (message: TabMessage) => {
+    if (message.sender === tabId) return;
+    const leader = election.isLeader();
+    switch (message.type) {
+      case 'hello':
+        if (leader) {
+          post({ type: 'leader', sender: tabId });
+          postStatus();
+        }
+        break;
+      case 'leader':
+        if (!leader) resendToLeader();
+        break;
+      case 'update':
+        handlers.applyRemote(message.docId, toBytes(message.update), message.persisted);
+        if (leader && message.seq !== undefined) {
+          acceptForwarded(message);
+        }
+        break;
+      case 'ack':
+        if (message.target === tabId) acknowledge(message.seq);
+        break;
+      case 'pull':
+        if (leader) servePull(message);
+        break;
+      case 'pull-result': {
+        if (message.target !== tabId) break;
+        const pending = pendingPulls.get(message.requestId);
+        if (!pending) break;
+        pendingPulls.delete(message.requestId);
+        clearTimeout(pending.timer);
+        if (message.error !== undefined) {
+          pending.reject(new Error(`[sync-wiser][tabs] Leader failed to pull: ${message.error}`));
+        } else {
+          pending.resolve(message.result ? toBytes(message.result) : null);
+        }
+        break;
+      }
+      case 'watch':
+        if (leader) addWatcher(message.docId, message.sender);
+        break;
+      case 'unwatch':
+        if (leader) removeWatcher(message.docId, message.sender);
+        break;
+      case 'status':
+        if (!leader) handlers.leaderRealtimeStatusChanged(message.state);
+        break;
+      default:
+        break;
+    }
+  };
+
+  channel.onmessage = (event) => {
+    try {
+      handleMessage(event.data as TabMessage);
+    } catch (error) {
+      handlers.onError(error);
+    }
+  };
+
+  const onLeadershipChange = (isLeader: boolean) => {
+    handlers.leadershipChanged(isLeader);
+    if (!isLeader) {
+      stopWatchers();
+      return;
+    }
+    // Serve what this tab was waiting on itself before announcing.
+    for (const message of unacked.values()) {
+      acceptForwarded(message);
+    }
+    for (const [requestId, pending] of Array.from(pendingPulls)) {
+      pendingPulls.delete(requestId);
+      clearTimeout(pending.timer);
+      const { docId, stateVector, options: pullOptions } = pending.message;
+      handlers
+        .pull(docId, stateVector, pullOptions)
+        .then(pending.resolve, pending.reject);
+    }
+    post({ type: 'leader', sender: tabId });
+    postStatus();
+  };
+
+  const unsubscribeElection = election.subscribe(onLeadershipChange);
+
+  post({ type: 'hello', sender: tabId });
+  if (election.isLeader()) {
+    onLeadershipChange(true);
+  }
+
+  return {
+    isLeader: () => election.isLeader(),
+    broadcast(docId, update, { persisted, forward = false }) {
+      const message: Extract<TabMessage, { type: 'update' }> = {
+        type: 'update',
+        sender: tabId,
+        docId,
+        update,
+        persisted,
+      };
+      if (forward) {
+        message.seq = nextSeq++;
+        unacked.set(message.seq, message);
+        // Leadership may have moved here since the edit was made.
+        if (election.isLeader()) {
+          acceptForwarded(message);
+        } else {
+          scheduleForwardRetry();
+        }
+      }
+      post(message);
+    },
+    pull(docId, stateVector, pullOptions) {
+      if (election.isLeader()) {
+        return handlers.pull(docId, stateVector, pullOptions);
+      }
+      return new Promise((resolve, reject) => {
+        const requestId = nextRequestId++;
+        const message: Extract<TabMessage, { type: 'pull' }> = {
+          type: 'pull',
+          sender: tabId,
+          requestId,
+          docId,
+          stateVector,
+          options: pullOptions,
+        };
+        const timer = setTimeout(() => {
+          pendingPulls.delete(requestId);
+          reject(
+            new Error(
+              `[sync-wiser][tabs] No leader tab answered the pull for document "${docId}".`
+            )
+          );
+        }, requestTimeout);
+        pendingPulls.set(requestId, { message, resolve, reject, timer });
+        post(message);
+      });
+    },
+    watch(docId) {
+      const count = watching.get(docId) ?? 0;
+      watching.set(docId, count + 1);
+      if (count === 0) {
+        post({ type: 'watch', sender: tabId, docId });
+        updateWatchRenewal();
+      }
+      let active = true;
+      return () => {
+        if (!active) return;
+        active = false;
+        const remaining = (watching.get(docId) ?? 1) - 1;
+        if (remaining > 0) {
+          watching.set(docId, remaining);
+          return;
+        }
+        watching.delete(docId);
+        post({ type: 'unwatch', sender: tabId, docId });
+        updateWatchRenewal();
+      };
+    },
+    announceRealtimeStatus() {
+      if (election.isLeader()) postStatus();
+    },
+    dispose() {
+      if (disposed) return;
+      for (const docId of watching.keys()) {
+        post({ type: 'unwatch', sender: tabId, docId });
+      }
+      disposed = true;
+      if (forwardRetry) clearTimeout(forwardRetry);
+      unsubscribeElection();
+      stopWatchers();
+      for (const pending of pendingPulls.values()) {
+        clearTimeout(pending.timer);
+        pending.reject(new Error('[sync-wiser][tabs] Tab coordination has been disposed.'));
+      }
+      pendingPulls.clear();
+      channel.close();
+      if (!options.election) {
+        election.dispose();
+      }
+    },
+  };
+}
+
+function toBytes(value: unknown): Uint8Array {
+  return toClonedBytes(value, 'tabs');
+}
@@ -0,0 +1,10 @@
+export { createSyncHandler } from './server/syncHandler';
+export type {
+  SyncHandler,
+  SyncHandlerOptions,
+  SyncServerRequest,
+  SyncServerResponse,
+} from './server/syncHandler';
+export { createFetchHandler } from './server/fetchHandler';
+export { createNodeHttpHandler } from './server/nodeHttpHandler';
+export type { NodeHttpHandlerOptions } from './server/nodeHttpHandler';
@@ -0,0 +1,34 @@
+import type { SyncHandler } from './syncHandler';
+
+/**
+ * Adapts a sync handler to the fetch `Request`/`Response` API used by edge
+ * runtimes, Deno, Bun, and most modern Node frameworks.
+ */
+export function createFetchHandler(
+  handler: SyncHandler
+): (request: Request) => Promise<Response> {
+  return async (request) => {
+    let body: unknown = null;
+    if (request.method.toUpperCase() === 'POST') {
+      try {
+        body = await request.json();
+      } catch {
+        return json(400, { error: 'Request body must be JSON.' });
+      }
+    }
+
+    const result = await handler.handle({
+      method: request.method,
+      path: new URL(request.url).pathname,
+      body,
+    });
+    return json(result.status, result.body);
+  };
+}
+
+function json(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
@@ -0,0 +1,75 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { SyncHandler } from './syncHandler';
+
+export type NodeHttpHandlerOptions = {
+  /**
+   * Largest accepted request body in bytes. Defaults to 10 MB.
+   */
+  maxBodyBytes?: number;
+};
+
+const DEFAULT_MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Adapts a sync handler to Node's `http` (and Express/Connect-style) request
+ * listeners. Bodies already parsed by middleware (`req.body`) are reused.
+ */
+export function createNodeHttpHandler(
+  handler: SyncHandler,
+  options: NodeHttpHandlerOptions = {}
+): (request: IncomingMessage, response: ServerResponse) => Promise<void> {
+  const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+
+  return async (request, response) => {
+    const method = request.method ?? 'GET';
+    let body: unknown = (request as IncomingMessage & { body?: unknown }).body;
+
+    if (body === undefined && method.toUpperCase() === 'POST') {
+      try {
+        body = JSON.parse(await readBody(request, maxBodyBytes));
+      } catch (error) {
+        const tooLarge = error instanceof BodyTooLargeError;
+        send(response, tooLarge ? 413 : 400, {
+          error: tooLarge
+            ? 'Request body is too large.'
+            : 'Request body must be JSON.',
+        });
+        return;
+      }
+    }
+
+    const result = await handler.handle({
+      method,
+      path: new URL(request.url ?? '/', 'http://localhost').pathname,
+      body,
+    });
+    send(response, result.status, result.body);
+  };
+}
+
+class BodyTooLargeError extends Error {}
+
+function readBody(request: IncomingMessage, limit: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.byteLength;
+      if (size > limit) {
+        // Keep draining so the 413 response can still be written.
+        chunks.length = 0;
+        reject(new BodyTooLargeError());
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    request.on('error', reject);
+  });
+}
+
+function send(response: ServerResponse, status: number, body: unknown) {
+  response.statusCode = status;
+  response.setHeader('Content-Type', 'application/json');
+  response.end(JSON.stringify(body));
+}
@@ -0,0 +1,217 @@
+import * as Y from 'yjs';
+import type { StorageAdapter } from '../types';
+import { assembleStoredDoc } from '../storage/helpers';
+import { decodeBase64, encodeBase64 } from '../sync/base64';
+
+export type SyncServerRequest = {
+  method: string;
+  /**
+   * Request path; only its last segment (`pull` or `push`) is routed on.
+   */
+  path: string;
+  body: unknown;
+};
+
+export type SyncServerResponse = {
+  status: number;
+  body: unknown;
+};
+
+export type SyncHandlerOptions = {
+  storage: StorageAdapter;
+  encodeUpdate?: (update: Uint8Array) => unknown;
+  decodeUpdate?: (payload: unknown) => Uint8Array;
+  /**
+   * Clock used for `dateLastSynced` checkpoints. Defaults to `new Date()`.
+   */
+  now?: () => Date;
+  onError?: (error: unknown) => void;
+};
+
+export type SyncHandler = {
+  handle(request: SyncServerRequest): Promise<SyncServerResponse>;
+};
+
+type PullDocument = {
+  id: string;
+  requestSnapshot?: boolean;
+  stateVector?: unknown;
+};
+
+type PushDocument = {
+  id: string;
+  update: unknown;
+  isSnapshot?: boolean;
+};
+
+/**
+ * Framework-agnostic server for the `createRestSyncAdapter` wire protocol.
+ * Documents are kept as plain Yjs updates in `storage`; pulls are answered
+ * with a diff against the client's state vector (or a full snapshot when one
+ * is requested), and pushed snapshots are merged into a compacted snapshot.
+ */
+export function createSyncHandler(options: SyncHandlerOptions): SyncHandler {
+  const {
+    storage,
+    encodeUpdate = encodeBase64,
+    decodeUpdate = defaultDecodeUpdate,
+    now = () => new Date(),
+    onError,
+  } = options;
+
+  // Writes to one document run one at a time so snapshot compaction never
+  // drops an update appended while the snapshot was being built.
+  const queues = new Map<string, Promise<unknown>>();
+  const withDocument = <T>(docId: string, task: () => Promise<T>) => {
+    const run = (queues.get(docId) ?? Promise.resolve()).then(task, task);
+    const settled = run.catch(() => undefined);
+    queues.set(docId, settled);
+    settled.then(() => {
+      if (queues.get(docId) === settled) {
+        queues.delete(docId);
+      }
+    });
+    return run;
+  };
+
+  const reportError = (error: unknown) => {
+    if (onError) {
+      onError(error);
+      return;
+    }
+    console.error('[sync-wiser][server]', error);
+  };
+
+  const loadDoc = async (docId: string): Promise<Y.Doc | null> => {
+    const stored = await assembleStoredDoc(storage, docId);
+    if (!stored) {
+      return null;
+    }
+    const doc = new Y.Doc({ gc: false });
+    if (stored.snapshot) {
+      Y.applyUpdate(doc, stored.snapshot);
+    }
+    for (const update of stored.updates) {
+      Y.applyUpdate(doc, update);
+    }
+    return doc;
+  };
+
+  const pullDocument = async (document: PullDocument, checkpoint: string) => {
+    const doc = await withDocument(document.id, () => loadDoc(document.id));
+    if (!doc) {
+      return { id: document.id, updates: [], dateLastSynced: checkpoint };
+    }
+
+    if (document.requestSnapshot) {
+      return {
+        id: document.id,
+        snapshot: encodeUpdate(Y.encodeStateAsUpdate(doc)),
+        updates: [],
+        dateLastSynced: checkpoint,
+      };
+    }
+
+    const stateVector =
+      document.stateVector !== undefined && document.stateVector !== null
+        ? decodeUpdate(document.stateVector)
+        : undefined;
+    return {
+      id: document.id,
+      updates: [encodeUpdate(Y.encodeStateAsUpdate(doc, stateVector))],
+      dateLastSynced: checkpoint,
+    };
+  };
+
+  const pushDocument = async (document: PushDocument, checkpoint: string) => {
+    const update = decodeUpdate(document.update);
+    await withDocument(document.id, async () => {
+      if (!document.isSnapshot || !storage.setSnapshot) {
+        assertValidUpdate(update);
+        await storage.appendUpdate(document.id, update);
+        return;
+      }
+
+      // A client snapshot only covers what that client has seen, so merge it
+      // with the stored state instead of replacing it.
+      const doc = (await loadDoc(document.id)) ?? new Y.Doc({ gc: false });
+      Y.applyUpdate(doc, update);
+      await storage.setSnapshot(document.id, Y.encodeStateAsUpdate(doc));
+      if (storage.compact && storage.getSnapshot) {
+        const generation = (await storage.getSnapshot(document.id))
+          ?.snapshotGeneration;
+        if (typeof generation === 'number') {
+          await storage.compact(document.id, generation);
+        }
+      }
+    });
+    return { id: document.id, dateLastSynced: checkpoint };
+  };
+
+  const handle = async (
+    request: SyncServerRequest
+  ): Promise<SyncServerResponse> => {
+    const action = request.path.replace(/\/+$/, '').split('/').pop();
+    if (action !== 'pull' && action !== 'push') {
+      return { status: 404, body: { error: 'Not found' } };
+    }
+    if (request.method.toUpperCase() !== 'POST') {
+      return { status: 405, body: { error: 'Method not allowed' } };
+    }
+
+    const documents = (request.body as { documents?: unknown } | null)
+      ?.documents;
+    if (
+      !Array.isArray(documents) ||
+      documents.some((doc) => typeof doc?.id !== 'string' || doc.id === '')
+    ) {
+      return {
+        status: 400,
+        body: { error: 'Expected a "documents" array of objects with an "id".' },
+      };
+    }
+
+    const checkpoint = now().toISOString();
+    const results = await Promise.all(
+      documents.map(async (document) => {
+        try {
+          return action === 'pull'
+            ? await pullDocument(document as PullDocument, checkpoint)
+            : await pushDocument(document as PushDocument, checkpoint);
+        } catch (error) {
+          reportError(error);
+          return {
+            id: document.id as string,
+            error: error instanceof Error ? error.message : String(error),
+          };
+        }
+      })
+    );
+
+    return { status: 200, body: { documents: results } };
+  };
+
+  return { handle };
+}
+
+function defaultDecodeUpdate(payload: unknown): Uint8Array {
+  if (typeof payload === 'string') {
+    return decodeBase64(payload);
+  }
+  if (Array.isArray(payload)) {
+    return Uint8Array.from(payload);
+  }
+  throw new TypeError(
+    '[sync-wiser][server] Unsupported payload format; provide a custom decodeUpdate()'
+  );
+}
+
+function assertValidUpdate(update: Uint8Array) {
+  try {
+    Y.decodeUpdate(update);
+  } catch (error) {
+    throw new Error('[sync-wiser][server] Payload is not a valid Yjs update.', {
+      cause: error,
+    });
+  }
+}
@@ -0,0 +1,377 @@
+import { promises as fs } from 'node:fs';
+import * as path from 'node:path';
+import type { StorageAdapter, StoredDoc } from '../types';
+import { assembleStoredDoc } from './helpers';
+
+export type FileSystemStorageAdapterOptions = {
+  /**
+   * Directory holding one set of files per document. Created on first write.
+   */
+  directory: string;
+  /**
+   * Flush file contents to disk before renaming/returning. Defaults to `true`.
+   */
+  fsync?: boolean;
+};
+
+type PersistedMetadata = {
+  snapshotGeneration: number;
+  syncedSnapshotGeneration: number;
+};
+
+type LogRecord = {
+  generation: number;
+  payload: Uint8Array;
+};
+
+// Every log record is framed as [payload length][snapshot generation][payload],
+// both headers being big-endian uint32 values. The snapshot file holds a single
+// record of this shape, so one rename replaces a snapshot and its generation.
+const RECORD_HEADER_BYTES = 8;
+
+function encodeFileName(docId: string): string {
+  return encodeURIComponent(docId).replace(/\./g, '%2E').replace(/\*/g, '%2A');
+}
+
+function encodeRecord(record: LogRecord): Uint8Array {
+  const frame = new Uint8Array(RECORD_HEADER_BYTES + record.payload.byteLength);
+  const view = new DataView(frame.buffer);
+  view.setUint32(0, record.payload.byteLength);
+  view.setUint32(4, record.generation);
+  frame.set(record.payload, RECORD_HEADER_BYTES);
+  return frame;
+}
+
+function decodeRecords(bytes: Uint8Array): {
+  records: LogRecord[];
+  validLength: number;
+} {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const records: LogRecord[] = [];
+  let offset = 0;
+  while (offset + RECORD_HEADER_BYTES <= bytes.byteLength) {
+    const length = view.getUint32(offset);
+    const end = offset + RECORD_HEADER_BYTES + length;
+    if (end > bytes.byteLength) {
+      break;
+    }
+    records.push({
+      generation: view.getUint32(offset + 4),
+      payload: Uint8Array.from(
+        bytes.subarray(offset + RECORD_HEADER_BYTES, end)
+      ),
+    });
+    offset = end;
+  }
+  return { records, validLength: offset };
+}
+
+// Snapshot files written before generations were stamped on them hold the raw
+// payload; their generation comes from the metadata file alone.
+function decodeSnapshot(bytes: Uint8Array): LogRecord {
+  const { records, validLength } = decodeRecords(bytes);
+  if (records.length === 1 && validLength === bytes.byteLength) {
+    return records[0]!;
+  }
+  return { generation: 0, payload: bytes };
+}
+
+function isMissingFile(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException | null)?.code === 'ENOENT';
+}
+
+async function readOptional(file: string): Promise<Uint8Array | null> {
+  try {
+    return new Uint8Array(await fs.readFile(file));
+  } catch (error) {
+    if (isMissingFile(error)) return null;
+    throw error;
+  }
+}
+
+async function removeOptional(file: string): Promise<void> {
+  try {
+    await fs.unlink(file);
+  } catch (error) {
+    if (!isMissingFile(error)) throw error;
+  }
+}
+
+export function createFileSystemStorageAdapter(
+  options: FileSystemStorageAdapterOptions
+): StorageAdapter & { get(docId: string): Promise<StoredDoc | null> } {
+  const { directory, fsync = true } = options;
+
+  let directoryReady: Promise<void> | null = null;
+  const locks = new Map<string, Promise<unknown>>();
+  const recovered = new Set<string>();
+
+  const files = (docId: string) => {
+    const base = path.join(directory, encodeFileName(docId));
+    return {
+      log: `${base}.log`,
+      snapshot: `${base}.snapshot`,
+      metadata: `${base}.meta.json`,
+      pending: `${base}.pending`,
+    };
+  };
+
+  const ensureDirectory = () => {
+    if (!directoryReady) {
+      directoryReady = fs
+        .mkdir(directory, { recursive: true })
+        .then(() => undefined)
+        .catch((error) => {
+          directoryReady = null;
+          throw error;
+        });
+    }
+    return directoryReady;
+  };
+
+  // Serialize work per document so appends, compaction and atomic replaces
+  // never interleave on the same files.
+  const withLock = <T>(docId: string, task: () => Promise<T>): Promise<T> => {
+    const previous = locks.get(docId) ?? Promise.resolve();
+    const next = previous.then(task, task);
+    const settled = next.catch(() => undefined);
+    locks.set(docId, settled);
+    void settled.then(() => {
+      if (locks.get(docId) === settled) {
+        locks.delete(docId);
+      }
+    });
+    return next;
+  };
+
+  const writeAtomically = async (file: string, data: Uint8Array) => {
+    await ensureDirectory();
+    const temp = `${file}.${process.pid}.${Date.now()}.${Math.random()
+      .toString(36)
+      .slice(2)}.tmp`;
+    const handle = await fs.open(temp, 'w');
+    try {
+      await handle.writeFile(data);
+      if (fsync) {
+        await handle.sync();
+      }
+    } finally {
+      await handle.close();
+    }
+    try {
+      await fs.rename(temp, file);
+    } catch (error) {
+      await removeOptional(temp);
+      throw error;
+    }
+  };
+
+  const readMetadata = async (
+    docId: string
+  ): Promise<PersistedMetadata | null> => {
+    const raw = await readOptional(files(docId).metadata);
+    if (!raw) return null;
+    const parsed = JSON.parse(
+      Buffer.from(raw).toString('utf8')
+    ) as Partial<PersistedMetadata>;
+    return {
+      snapshotGeneration: parsed.snapshotGeneration ?? 0,
+      syncedSnapshotGeneration: parsed.syncedSnapshotGeneration ?? 0,
+    };
+  };
+
+  // The generation stamped on the snapshot file wins over the metadata file,
+  // which only catches up once the snapshot is marked as synced.
+  const readSnapshot = async (docId: string) => {
+    const [bytes, metadata] = await Promise.all([
+      readOptional(files(docId).snapshot),
+      readMetadata(docId),
+    ]);
+    const record = bytes ? decodeSnapshot(bytes) : null;
+    const snapshotGeneration = Math.max(
+      record?.generation ?? 0,
+      metadata?.snapshotGeneration ?? 0
+    );
+    return {
+      snapshot: record?.payload ?? null,
+      snapshotGeneration,
+      syncedSnapshotGeneration: Math.min(
+        metadata?.syncedSnapshotGeneration ?? 0,
+        snapshotGeneration
+      ),
+    };
+  };
+
+  const writeMetadata = (docId: string, metadata: PersistedMetadata) =>
+    writeAtomically(
+      files(docId).metadata,
+      new Uint8Array(Buffer.from(JSON.stringify(metadata), 'utf8'))
+    );
+
+  // A crash mid-append can leave a partially written final record. Drop it once
+  // per process so reads succeed and later appends start on a record boundary.
+  const readLog = async (docId: string): Promise<LogRecord[] | null> => {
+    const logFile = files(docId).log;
+    const bytes = await readOptional(logFile);
+    if (!bytes) {
+      recovered.add(docId);
+      return null;
+    }
+    const { records, validLength } = decodeRecords(bytes);
+    if (validLength < bytes.byteLength) {
+      await fs.truncate(logFile, validLength);
+    }
+    recovered.add(docId);
+    return records;
+  };
+
+  const hasDoc = async (docId: string): Promise<boolean> => {
+    const docFiles = files(docId);
+    const checks = await Promise.all(
+      [docFiles.log, docFiles.snapshot, docFiles.metadata, docFiles.pending].map(
+        (file) =>
+          fs.access(file).then(
+            () => true,
+            () => false
+          )
+      )
+    );
+    return checks.some(Boolean);
+  };
+
+  const coreAdapter: StorageAdapter = {
+    async getSnapshot(docId: string) {
+      return withLock(docId, async () => {
+        if (!(await hasDoc(docId))) {
+          return null;
+        }
+        return readSnapshot(docId);
+      });
+    },
+
+    async getUpdates(docId: string) {
+      return withLock(docId, async () => {
+        if (!(await hasDoc(docId))) {
+          return null;
+        }
+        const records = await readLog(docId);
+        return (records ?? []).map(({ payload }) => payload);
+      });
+    },
+
+    async getPendingSync(docId: string) {
+      return withLock(docId, async () => {
+        if (!(await hasDoc(docId))) {
+          return null;
+        }
+        const bytes = await readOptional(files(docId).pending);
+        if (!bytes) return [];
+        return decodeRecords(bytes).records.map(({ payload }) => payload);
+      });
+    },
+
+    async setSnapshot(docId: string, snapshot: Uint8Array): Promise<void> {
+      await withLock(docId, async () => {
+        const current = await readSnapshot(docId);
+        await writeAtomically(
+          files(docId).snapshot,
+          encodeRecord({
+            generation: current.snapshotGeneration + 1,
+            payload: snapshot,
+          })
+        );
+      });
+    },
+
+    async appendUpdate(docId: string, update: Uint8Array): Promise<void> {
+      await withLock(docId, async () => {
+        await ensureDirectory();
+        if (!recovered.has(docId)) {
+          await readLog(docId);
+        }
+        const { snapshotGeneration } = await readSnapshot(docId);
+        const frame = encodeRecord({
+          generation: snapshotGeneration,
+          payload: update,
+        });
+        const handle = await fs.open(files(docId).log, 'a');
+        try {
+          await handle.write(frame);
+          if (fsync) {
+            await handle.datasync();
+          }
+        } finally {
+          await handle.close();
+        }
+      });
+    },
+
+    async markPendingSync(docId: string, updatesToMark: Uint8Array[]) {
+      await withLock(docId, async () => {
+        const frames = updatesToMark.map((payload) =>
+          encodeRecord({ generation: 0, payload })
+        );
+        await writeAtomically(files(docId).pending, Buffer.concat(frames));
+      });
+    },
+
+    async clearPendingSync(docId: string) {
+      await withLock(docId, () => removeOptional(files(docId).pending));
+    },
+
+    async markSnapshotSynced(docId: string, generation: number) {
+      await withLock(docId, async () => {
+        const current = await readSnapshot(docId);
+        const snapshotGeneration = Math.max(current.snapshotGeneration, generation);
+        await writeMetadata(docId, {
+          snapshotGeneration,
+          syncedSnapshotGeneration: Math.min(
+            Math.max(current.syncedSnapshotGeneration, generation),
+            snapshotGeneration
+          ),
+        });
+      });
+    },
+
+    async compact(docId: string, upToSnapshotGeneration: number) {
+      await withLock(docId, async () => {
+        const records = await readLog(docId);
+        if (!records) return;
+        const kept = records.filter(
+          ({ generation }) => generation >= upToSnapshotGeneration
+        );
+        if (kept.length === records.length) return;
+        await writeAtomically(
+          files(docId).log,
+          Buffer.concat(kept.map((record) => encodeRecord(record)))
+        );
+      });
+    },
+
+    async remove(docId: string): Promise<void> {
+      await withLock(docId, async () => {
+        const docFiles = files(docId);
+        await Promise.all(
+          [
+            docFiles.log,
+            docFiles.snapshot,
+            docFiles.metadata,
+            docFiles.pending,
+          ].map(removeOptional)
+        );
+        recovered.delete(docId);
+      });
+    },
+  };
+
+  const adapter: StorageAdapter & {
+    get(docId: string): Promise<StoredDoc | null>;
+  } = {
+    ...coreAdapter,
+    async get(docId: string): Promise<StoredDoc | null> {
+      return assembleStoredDoc(coreAdapter, docId);
+    },
+  };
+
+  return adapter;
+}
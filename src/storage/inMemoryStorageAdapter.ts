@@ -1,8 +1,15 @@
 import type { StorageAdapter, StoredDoc } from '../types';
+
+type StoredUpdate = {
+  update: Uint8Array;
+  generation: number;
+};
+
 export function createInMemoryStorageAdapter(): StorageAdapter {
   const snapshots = new Map<string, Uint8Array>();
-  const updates = new Map<string, Uint8Array[]>();
+  const updates = new Map<string, StoredUpdate[]>();
   const pending = new Map<string, Uint8Array[]>();
+  const cursors = new Map<string, Map<string, string>>();
   const metadata = new Map<
     string,
     { generation: number; syncedGeneration: number }
@@ -32,7 +39,7 @@ export function createInMemoryStorageAdapter(): StorageAdapter {
         return null;
       }
       const storedUpdates = updates.get(docId) ?? [];
-      return storedUpdates.map((update) => update.slice());
+      return storedUpdates.map(({ update }) => update.slice());
     },
     async getPendingSync(docId: string) {
       if (!hasDoc(docId)) {
@@ -55,14 +62,29 @@ export function createInMemoryStorageAdapter(): StorageAdapter {
     },
     async appendUpdate(docId: string, update: Uint8Array): Promise<void> {
       const pendingUpdates = updates.get(docId);
-      const cloned = update.slice();
+      const record: StoredUpdate = {
+        update: update.slice(),
+        generation: metadata.get(docId)?.generation ?? 0,
+      };
 
       if (pendingUpdates) {
-        pendingUpdates.push(cloned);
+        pendingUpdates.push(record);
       } else {
-        updates.set(docId, [cloned]);
+        updates.set(docId, [record]);
       }
     },
+    async compact(docId: string, upToSnapshotGeneration: number) {
+      const storedUpdates = updates.get(docId);
+      if (!storedUpdates) return;
+      // Updates appended before snapshot N carry a generation below N and are
+      // already folded into that snapshot.
+      updates.set(
+        docId,
+        storedUpdates.filter(
+          ({ generation }) => generation >= upToSnapshotGeneration
+        )
+      );
+    },
     async markPendingSync(docId: string, updatesToMark: Uint8Array[]) {
       pending.set(
         docId,
@@ -89,11 +111,32 @@ export function createInMemoryStorageAdapter(): StorageAdapter {
     async clearPendingSync(docId: string) {
       pending.delete(docId);
     },
+    async getSyncCursor(docId: string, adapterKey: string) {
+      return cursors.get(docId)?.get(adapterKey) ?? null;
+    },
+    async setSyncCursor(
+      docId: string,
+      adapterKey: string,
+      cursor: string | null
+    ) {
+      const docCursors = cursors.get(docId) ?? new Map<string, string>();
+      if (cursor === null) {
+        docCursors.delete(adapterKey);
+      } else {
+        docCursors.set(adapterKey, cursor);
+      }
+      if (docCursors.size > 0) {
+        cursors.set(docId, docCursors);
+      } else {
+        cursors.delete(docId);
+      }
+    },
     async remove(docId: string): Promise<void> {
       snapshots.delete(docId);
       updates.delete(docId);
       pending.delete(docId);
       metadata.delete(docId);
+      cursors.delete(docId);
     },
   };
 
@@ -0,0 +1,365 @@
+import type { StorageAdapter, StoredDoc } from '../types';
+import { assembleStoredDoc } from './helpers';
+
+export type IndexedDbStorageAdapterOptions = {
+  databaseName?: string;
+  indexedDB?: IDBFactory;
+};
+
+const DEFAULT_DATABASE_NAME = 'sync-wiser';
+
+const SNAPSHOTS_STORE = 'snapshots';
+const UPDATES_STORE = 'updates';
+const PENDING_STORE = 'pendingSync';
+const METADATA_STORE = 'metadata';
+const DOC_ID_INDEX = 'docId';
+
+const ALL_STORES = [
+  SNAPSHOTS_STORE,
+  UPDATES_STORE,
+  PENDING_STORE,
+  METADATA_STORE,
+];
+
+type SnapshotRecord = {
+  docId: string;
+  snapshot: Uint8Array;
+};
+
+type UpdateRecord = {
+  docId: string;
+  update: Uint8Array;
+  generation: number;
+};
+
+type PendingRecord = {
+  docId: string;
+  updates: Uint8Array[];
+};
+
+type MetadataRecord = {
+  docId: string;
+  snapshotGeneration: number;
+  syncedSnapshotGeneration: number;
+};
+
+// Each entry upgrades the schema from version `index` to `index + 1`. Append new
+// steps instead of editing old ones so existing databases migrate in order.
+const UPGRADES: Array<(db: IDBDatabase, transaction: IDBTransaction) => void> = [
+  (db) => {
+    db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'docId' });
+    const updates = db.createObjectStore(UPDATES_STORE, {
+      keyPath: 'seq',
+      autoIncrement: true,
+    });
+    updates.createIndex(DOC_ID_INDEX, 'docId', { unique: false });
+    db.createObjectStore(PENDING_STORE, { keyPath: 'docId' });
+    db.createObjectStore(METADATA_STORE, { keyPath: 'docId' });
+  },
+];
+
+const DATABASE_VERSION = UPGRADES.length;
+
+// Structured clones can come back from another realm (e.g. a polyfilled
+// factory), so copy into this realm's Uint8Array before handing bytes out.
+function toBytes(value: Uint8Array): Uint8Array {
+  return Uint8Array.from(value);
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function deleteDocUpdates(
+  store: IDBObjectStore,
+  docId: string,
+  keep?: (record: UpdateRecord) => boolean
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const request = store.index(DOC_ID_INDEX).openCursor(docId);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve();
+        return;
+      }
+      if (!keep || !keep(cursor.value as UpdateRecord)) {
+        cursor.delete();
+      }
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function createIndexedDbStorageAdapter(
+  options: IndexedDbStorageAdapterOptions = {}
+): StorageAdapter & { get(docId: string): Promise<StoredDoc | null> } {
+  const databaseName = options.databaseName ?? DEFAULT_DATABASE_NAME;
+  const factory =
+    options.indexedDB ??
+    (typeof globalThis !== 'undefined'
+      ? (globalThis as typeof globalThis & { indexedDB?: IDBFactory }).indexedDB
+      : undefined);
+
+  if (!factory) {
+    throw new Error(
+      'createIndexedDbStorageAdapter requires access to globalThis.indexedDB or a compatible IDBFactory.'
+    );
+  }
+
+  let databasePromise: Promise<IDBDatabase> | null = null;
+
+  const openDatabase = (): Promise<IDBDatabase> => {
+    if (databasePromise) return databasePromise;
+
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = factory.open(databaseName, DATABASE_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        const transaction = request.transaction!;
+        for (
+          let version = event.oldVersion;
+          version < DATABASE_VERSION;
+          version += 1
+        ) {
+          UPGRADES[version]!(db, transaction);
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let other tabs upgrade or delete the database instead of blocking them.
+        db.onversionchange = () => {
+          db.close();
+          databasePromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        databasePromise = null;
+        reject(request.error);
+      };
+    });
+
+    return databasePromise;
+  };
+
+  const withTransaction = async <T>(
+    storeNames: string[],
+    mode: IDBTransactionMode,
+    work: (transaction: IDBTransaction) => Promise<T>
+  ): Promise<T> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(storeNames, mode);
+    const completed = new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () =>
+        reject(
+          transaction.error ??
+            new Error('[sync-wiser] IndexedDB transaction aborted')
+        );
+    });
+
+    let result: T;
+    try {
+      result = await work(transaction);
+    } catch (error) {
+      try {
+        transaction.abort();
+      } catch {
+        /* transaction already finished */
+      }
+      completed.catch(() => undefined);
+      throw error;
+    }
+    await completed;
+    return result;
+  };
+
+  const readMetadata = (transaction: IDBTransaction, docId: string) =>
+    requestToPromise(
+      transaction.objectStore(METADATA_STORE).get(docId) as IDBRequest<
+        MetadataRecord | undefined
+      >
+    );
+
+  const hasDoc = async (transaction: IDBTransaction, docId: string) => {
+    const [snapshot, metadata, pending, updateCount] = await Promise.all([
+      requestToPromise(transaction.objectStore(SNAPSHOTS_STORE).getKey(docId)),
+      requestToPromise(transaction.objectStore(METADATA_STORE).getKey(docId)),
+      requestToPromise(transaction.objectStore(PENDING_STORE).getKey(docId)),
+      requestToPromise(
+        transaction.objectStore(UPDATES_STORE).index(DOC_ID_INDEX).count(docId)
+      ),
+    ]);
+    return (
+      snapshot !== undefined ||
+      metadata !== undefined ||
+      pending !== undefined ||
+      updateCount > 0
+    );
+  };
+
+  const coreAdapter: StorageAdapter = {
+    async getSnapshot(docId: string) {
+      return withTransaction(ALL_STORES, 'readonly', async (transaction) => {
+        if (!(await hasDoc(transaction, docId))) {
+          return null;
+        }
+        const [record, metadata] = await Promise.all([
+          requestToPromise(
+            transaction.objectStore(SNAPSHOTS_STORE).get(docId) as IDBRequest<
+              SnapshotRecord | undefined
+            >
+          ),
+          readMetadata(transaction, docId),
+        ]);
+        return {
+          snapshot: record ? toBytes(record.snapshot) : null,
+          snapshotGeneration: metadata?.snapshotGeneration ?? 0,
+          syncedSnapshotGeneration: metadata?.syncedSnapshotGeneration ?? 0,
+        };
+      });
+    },
+
+    async getUpdates(docId: string) {
+      return withTransaction(ALL_STORES, 'readonly', async (transaction) => {
+        if (!(await hasDoc(transaction, docId))) {
+          return null;
+        }
+        const records = await requestToPromise(
+          transaction
+            .objectStore(UPDATES_STORE)
+            .index(DOC_ID_INDEX)
+            .getAll(docId) as IDBRequest<UpdateRecord[]>
+        );
+        return records.map(({ update }) => toBytes(update));
+      });
+    },
+
+    async getPendingSync(docId: string) {
+      return withTransaction(ALL_STORES, 'readonly', async (transaction) => {
+        if (!(await hasDoc(transaction, docId))) {
+          return null;
+        }
+        const record = await requestToPromise(
+          transaction.objectStore(PENDING_STORE).get(docId) as IDBRequest<
+            PendingRecord | undefined
+          >
+        );
+        return record ? record.updates.map(toBytes) : [];
+      });
+    },
+
+    async setSnapshot(docId: string, snapshot: Uint8Array): Promise<void> {
+      await withTransaction(
+        [SNAPSHOTS_STORE, METADATA_STORE],
+        'readwrite',
+        async (transaction) => {
+          const current = await readMetadata(transaction, docId);
+          const nextGeneration = (current?.snapshotGeneration ?? 0) + 1;
+          const record: SnapshotRecord = { docId, snapshot: snapshot.slice() };
+          const metadata: MetadataRecord = {
+            docId,
+            snapshotGeneration: nextGeneration,
+            syncedSnapshotGeneration: Math.min(
+              current?.syncedSnapshotGeneration ?? 0,
+              nextGeneration
+            ),
+          };
+          await Promise.all([
+            requestToPromise(transaction.objectStore(SNAPSHOTS_STORE).put(record)),
+            requestToPromise(transaction.objectStore(METADATA_STORE).put(metadata)),
+          ]);
+        }
+      );
+    },
+
+    async appendUpdate(docId: string, update: Uint8Array): Promise<void> {
+      await withTransaction(
+        [UPDATES_STORE, METADATA_STORE],
+        'readwrite',
+        async (transaction) => {
+          const metadata = await readMetadata(transaction, docId);
+          const record: UpdateRecord = {
+            docId,
+            update: update.slice(),
+            generation: metadata?.snapshotGeneration ?? 0,
+          };
+          await requestToPromise(transaction.objectStore(UPDATES_STORE).add(record));
+        }
+      );
+    },
+
+    async markPendingSync(docId: string, updatesToMark: Uint8Array[]) {
+      await withTransaction([PENDING_STORE], 'readwrite', async (transaction) => {
+        const record: PendingRecord = {
+          docId,
+          updates: updatesToMark.map((update) => update.slice()),
+        };
+        await requestToPromise(transaction.objectStore(PENDING_STORE).put(record));
+      });
+    },
+
+    async clearPendingSync(docId: string) {
+      await withTransaction([PENDING_STORE], 'readwrite', async (transaction) => {
+        await requestToPromise(transaction.objectStore(PENDING_STORE).delete(docId));
+      });
+    },
+
+    async markSnapshotSynced(docId: string, generation: number) {
+      await withTransaction([METADATA_STORE], 'readwrite', async (transaction) => {
+        const current = await readMetadata(transaction, docId);
+        const snapshotGeneration = Math.max(
+          current?.snapshotGeneration ?? generation,
+          generation
+        );
+        const metadata: MetadataRecord = {
+          docId,
+          snapshotGeneration,
+          syncedSnapshotGeneration: Math.min(
+            Math.max(current?.syncedSnapshotGeneration ?? 0, generation),
+            snapshotGeneration
+          ),
+        };
+        await requestToPromise(transaction.objectStore(METADATA_STORE).put(metadata));
+      });
+    },
+
+    async compact(docId: string, upToSnapshotGeneration: number) {
+      await withTransaction([UPDATES_STORE], 'readwrite', (transaction) =>
+        deleteDocUpdates(
+          transaction.objectStore(UPDATES_STORE),
+          docId,
+          ({ generation }) => generation >= upToSnapshotGeneration
+        )
+      );
+    },
+
+    async remove(docId: string): Promise<void> {
+      await withTransaction(ALL_STORES, 'readwrite', async (transaction) => {
+        await Promise.all([
+          requestToPromise(transaction.objectStore(SNAPSHOTS_STORE).delete(docId)),
+          requestToPromise(transaction.objectStore(PENDING_STORE).delete(docId)),
+          requestToPromise(transaction.objectStore(METADATA_STORE).delete(docId)),
+          deleteDocUpdates(transaction.objectStore(UPDATES_STORE), docId),
+        ]);
+      });
+    },
+  };
+
+  const adapter: StorageAdapter & {
+    get(docId: string): Promise<StoredDoc | null>;
+  } = {
+    ...coreAdapter,
+    async get(docId: string): Promise<StoredDoc | null> {
+      return assembleStoredDoc(coreAdapter, docId);
+    },
+  };
+
+  return adapter;
+}
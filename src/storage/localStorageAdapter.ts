@@ -72,9 +72,11 @@ function docKey(namespace: string, docId: string): string {
 type PersistedDoc = {
   snapshot?: string;
   updates?: string[];
+  updateGenerations?: number[];
   pendingSync?: string[];
   snapshotGeneration?: number;
   syncedSnapshotGeneration?: number;
+  syncCursors?: Record<string, string>;
 };
 
 export function createLocalStorageAdapter(
@@ -112,6 +114,20 @@ export function createLocalStorageAdapter(
     storage.setItem(docKey(namespace, docId), JSON.stringify(value));
   };
 
+  const readGenerations = (persisted: PersistedDoc): number[] => {
+    const updateCount = persisted.updates?.length ?? 0;
+    const generations = persisted.updateGenerations ?? [];
+    if (generations.length >= updateCount) {
+      return generations.slice(generations.length - updateCount);
+    }
+    // Updates written before generations were tracked predate every later
+    // snapshot, so treat them as generation 0.
+    return [
+      ...new Array<number>(updateCount - generations.length).fill(0),
+      ...generations,
+    ];
+  };
+
   const hasDoc = (docId: string): boolean => {
     const persisted = read(docId);
     if (!persisted) return false;
@@ -162,13 +178,29 @@ export function createLocalStorageAdapter(
     async appendUpdate(docId: string, update: Uint8Array): Promise<void> {
       const persisted = read(docId) ?? {};
       const updates = persisted.updates ?? [];
+      const generations = readGenerations(persisted);
       updates.push(toBase64(update));
+      generations.push(persisted.snapshotGeneration ?? 0);
 
       if (updates.length > maxUpdates) {
         updates.splice(0, updates.length - maxUpdates);
+        generations.splice(0, generations.length - maxUpdates);
       }
 
       persisted.updates = updates;
+      persisted.updateGenerations = generations;
+      write(docId, persisted);
+    },
+
+    async compact(docId: string, upToSnapshotGeneration: number) {
+      const persisted = read(docId);
+      if (!persisted?.updates) return;
+      const generations = readGenerations(persisted);
+      const keep = persisted.updates
+        .map((update, index) => ({ update, generation: generations[index]! }))
+        .filter(({ generation }) => generation >= upToSnapshotGeneration);
+      persisted.updates = keep.map(({ update }) => update);
+      persisted.updateGenerations = keep.map(({ generation }) => generation);
       write(docId, persisted);
     },
 
@@ -198,6 +230,30 @@ export function createLocalStorageAdapter(
       write(docId, persisted);
     },
 
+    async getSyncCursor(docId: string, adapterKey: string) {
+      return read(docId)?.syncCursors?.[adapterKey] ?? null;
+    },
+
+    async setSyncCursor(
+      docId: string,
+      adapterKey: string,
+      cursor: string | null
+    ) {
+      const persisted = read(docId) ?? {};
+      const syncCursors = { ...(persisted.syncCursors ?? {}) };
+      if (cursor === null) {
+        delete syncCursors[adapterKey];
+      } else {
+        syncCursors[adapterKey] = cursor;
+      }
+      if (Object.keys(syncCursors).length > 0) {
+        persisted.syncCursors = syncCursors;
+      } else {
+        delete persisted.syncCursors;
+      }
+      write(docId, persisted);
+    },
+
     async remove(docId: string): Promise<void> {
       storage.removeItem(docKey(namespace, docId));
     },
@@ -1,9 +1,14 @@
 import * as Y from 'yjs';
 import type {
   SyncAdapter,
+  SyncCursorStore,
   SyncPullOptions,
+  SyncPullRequest,
   SyncPushOptions,
+  SyncPushRequest,
+  SyncPushResult,
 } from '../types';
+import { decodeBase64, encodeBase64 } from './base64';
 
 type LastSyncedAccessor = {
   get(docId: string): Promise<string | null>;
@@ -34,6 +39,15 @@ type PullRequestBuilder = (input: {
   | { url: string; init?: RequestInit }
   | Promise<{ url: string; init?: RequestInit }>;
 
+type PullBatchRequestBuilder = (input: {
+  baseUrl: string;
+  headers: Record<string, string>;
+  contexts: PullContext[];
+  encode: (data: Uint8Array) => unknown;
+}) =>
+  | { url: string; init?: RequestInit }
+  | Promise<{ url: string; init?: RequestInit }>;
+
 type PullResponseParser = (input: {
   response: Response;
   context: PullContext;
@@ -42,6 +56,14 @@ type PullResponseParser = (input: {
   | PullParseResult
   | Promise<PullParseResult>;
 
+type PullBatchResponseParser = (input: {
+  response: Response;
+  contexts: PullContext[];
+  decode: (payload: unknown) => Uint8Array;
+}) =>
+  | PullParseResult[]
+  | Promise<PullParseResult[]>;
+
 type PullParseResult =
   | {
       updates: Uint8Array[];
@@ -59,44 +81,140 @@ type PushRequestBuilder = (input: {
   | { url: string; init?: RequestInit }
   | Promise<{ url: string; init?: RequestInit }>;
 
+type PushBatchRequestBuilder = (input: {
+  baseUrl: string;
+  headers: Record<string, string>;
+  contexts: PushContext[];
+  encode: (data: Uint8Array) => unknown;
+}) =>
+  | { url: string; init?: RequestInit }
+  | Promise<{ url: string; init?: RequestInit }>;
+
 type PushResponseParser = (input: {
   response: Response;
   context: PushContext;
 }) =>
-  | { dateLastSynced: string | null }
-  | null
-  | Promise<{ dateLastSynced: string | null } | null>;
+  | PushParseResult
+  | Promise<PushParseResult>;
+
+type PushBatchResponseParser = (input: {
+  response: Response;
+  contexts: PushContext[];
+}) =>
+  | PushParseResult[]
+  | Promise<PushParseResult[]>;
+
+/**
+ * `error` marks the document as rejected by the server: `push()` throws it and
+ * `pushMany()` reports it for that document only.
+ */
+type PushParseResult = {
+  dateLastSynced: string | null;
+  error?: unknown;
+} | null;
+
+export type RestSyncMode = 'timestamp' | 'stateVector';
 
 export type RestSyncAdapterOptions = {
   baseUrl: string;
+  /**
+   * `'timestamp'` (default) checkpoints each document with the server's
+   * `dateLastSynced`. `'stateVector'` relies on the server answering every pull
+   * with exactly the diff for the state vector sent along, so no checkpoint
+   * is kept and `getLastSynced`/`setLastSynced` are never called.
+   */
+  mode?: RestSyncMode;
   fetch?: typeof fetch;
   headers?: Record<string, string>;
   encodeUpdate?: (update: Uint8Array) => unknown;
   decodeUpdate?: (payload: unknown) => Uint8Array;
+  /**
+   * Explicit checkpoint persistence. When omitted, checkpoints go to the
+   * runtime's storage adapter (if it implements `getSyncCursor`/`setSyncCursor`)
+   * and otherwise stay in memory.
+   */
   getLastSynced?: (docId: string) => Promise<string | null>;
   setLastSynced?: (docId: string, value: string | null) => Promise<void>;
+  /**
+   * Key the checkpoints are stored under in the storage adapter. Defaults to
+   * `rest:<baseUrl>`, so separate servers never share a cursor.
+   */
+  cursorKey?: string;
   buildPullRequest?: PullRequestBuilder;
+  /**
+   * Builds the single request sent by `pullMany()`, whose response goes to
+   * `parsePullBatchResponse`. When you override `buildPullRequest` without
+   * this, `pullMany()` falls back to one request per document.
+   */
+  buildPullBatchRequest?: PullBatchRequestBuilder;
   parsePullResponse?: PullResponseParser;
+  /**
+   * Reads the response to `pullMany()`'s request once and returns one result
+   * per context, in order. When you override `parsePullResponse` without this,
+   * `pullMany()` falls back to one request per document.
+   */
+  parsePullBatchResponse?: PullBatchResponseParser;
+  /**
+   * Milliseconds to hold `pull()` calls so that pulls issued together share one
+   * HTTP request via `pullMany()`. `0` (the default) sends every pull immediately.
+   */
+  pullBatchWindow?: number;
   buildPushRequest?: PushRequestBuilder;
+  /**
+   * Builds the single request sent by `pushMany()`, whose response goes to
+   * `parsePushBatchResponse`. When you override `buildPushRequest` without
+   * this, `pushMany()` falls back to one request per document.
+   */
+  buildPushBatchRequest?: PushBatchRequestBuilder;
   parsePushResponse?: PushResponseParser;
+  /**
+   * Reads the response to `pushMany()`'s request once and returns one result
+   * per context, in order. When you override `parsePushResponse` without this,
+   * `pushMany()` falls back to one request per document.
+   */
+  parsePushBatchResponse?: PushBatchResponseParser;
   onError?: (error: unknown) => void;
 };
 
 export function createRestSyncAdapter(
   options: RestSyncAdapterOptions
+): SyncAdapter {
+  return buildRestSyncAdapter(options, null);
+}
+
+// Each cursor store gets its own adapter instance, so runtimes that share the
+// adapter they were given never read or write each other's checkpoints.
+function buildRestSyncAdapter(
+  options: RestSyncAdapterOptions,
+  cursorStore: SyncCursorStore | null
 ): SyncAdapter {
   const {
     baseUrl,
+    mode = 'timestamp',
     fetch: fetchImpl = typeof fetch === 'function' ? fetch : undefined,
     headers: baseHeaders,
     encodeUpdate = defaultEncodeUpdate,
     decodeUpdate = defaultDecodeUpdate,
     getLastSynced,
     setLastSynced,
+    cursorKey,
     buildPullRequest = defaultBuildPullRequest,
+    buildPullBatchRequest = options.buildPullRequest
+      ? undefined
+      : defaultBuildPullBatchRequest,
     parsePullResponse = defaultParsePullResponse,
+    parsePullBatchResponse = options.parsePullResponse
+      ? undefined
+      : defaultParsePullBatchResponse,
+    pullBatchWindow = 0,
     buildPushRequest = defaultBuildPushRequest,
+    buildPushBatchRequest = options.buildPushRequest
+      ? undefined
+      : defaultBuildPushBatchRequest,
     parsePushResponse = defaultParsePushResponse,
+    parsePushBatchResponse = options.parsePushResponse
+      ? undefined
+      : defaultParsePushBatchResponse,
     onError,
   } = options;
 
@@ -112,17 +230,25 @@ export function createRestSyncAdapter(
     headers['Content-Type'] = 'application/json';
   }
 
+  const adapterKey = cursorKey ?? `rest:${normalizedBase}`;
   const memoryLastSynced = new Map<string, string | null>();
   const accessor: LastSyncedAccessor = {
     async get(docId) {
+      if (mode === 'stateVector') return null;
       if (getLastSynced) return getLastSynced(docId);
+      if (cursorStore) return cursorStore.get(docId, adapterKey);
       return memoryLastSynced.get(docId) ?? null;
     },
     async set(docId, value) {
+      if (mode === 'stateVector') return;
       if (setLastSynced) {
         await setLastSynced(docId, value);
         return;
       }
+      if (cursorStore) {
+        await cursorStore.set(docId, adapterKey, value);
+        return;
+      }
       memoryLastSynced.set(docId, value);
     },
   };
@@ -135,26 +261,18 @@ export function createRestSyncAdapter(
     console.error('[sync-wiser][rest-sync]', error);
   };
 
-  const pull: SyncAdapter['pull'] = async (
+  const createPullContext = async ({
     docId,
     stateVector,
-    pullOptions
-  ) => {
-    const lastSynced = await accessor.get(docId);
-    const context: PullContext = {
-      docId,
-      lastSynced,
-      stateVector: stateVector ?? undefined,
-      options: pullOptions,
-    };
-
-    const { url, init } = await buildPullRequest({
-      baseUrl: normalizedBase,
-      headers,
-      context,
-      encode: encodeUpdate,
-    });
+    options: pullOptions,
+  }: SyncPullRequest): Promise<PullContext> => ({
+    docId,
+    lastSynced: await accessor.get(docId),
+    stateVector: stateVector ?? undefined,
+    options: pullOptions,
+  });
 
+  const sendPull = async (url: string, init?: RequestInit) => {
     const response = await fetchImpl(url, {
       method: 'POST',
       headers,
@@ -169,17 +287,27 @@ export function createRestSyncAdapter(
       throw error;
     }
 
-    const parsed = await parsePullResponse({
-      response,
-      context,
-      decode: decodeUpdate,
-    });
+    return response;
+  };
 
+  const resolvePull = async (
+    response: Response,
+    context: PullContext
+  ): Promise<Uint8Array | null> =>
+    applyPull(
+      await parsePullResponse({ response, context, decode: decodeUpdate }),
+      context
+    );
+
+  const applyPull = async (
+    parsed: PullParseResult | undefined,
+    context: PullContext
+  ): Promise<Uint8Array | null> => {
     if (!parsed) {
       return null;
     }
 
-    await accessor.set(docId, parsed.dateLastSynced ?? null);
+    await accessor.set(context.docId, parsed.dateLastSynced ?? null);
 
     const chunks: Uint8Array[] = [];
     if (parsed.snapshot) {
@@ -200,23 +328,105 @@ export function createRestSyncAdapter(
     return Y.mergeUpdates(chunks);
   };
 
-  const push: SyncAdapter['push'] = async (docId, update, pushOptions) => {
-    const lastSynced = await accessor.get(docId);
-    const context: PushContext = {
-      docId,
-      lastSynced,
-      update,
-      isSnapshot: pushOptions?.isSnapshot ?? false,
-      options: pushOptions,
-    };
+  const pullOne = async (request: SyncPullRequest) => {
+    const context = await createPullContext(request);
 
-    const { url, init } = await buildPushRequest({
+    const { url, init } = await buildPullRequest({
       baseUrl: normalizedBase,
       headers,
       context,
       encode: encodeUpdate,
     });
 
+    const response = await sendPull(url, init);
+    return resolvePull(response, context);
+  };
+
+  const pullMany: NonNullable<SyncAdapter['pullMany']> = async (requests) => {
+    if (requests.length === 0) {
+      return [];
+    }
+    if (
+      requests.length === 1 ||
+      !buildPullBatchRequest ||
+      !parsePullBatchResponse
+    ) {
+      return Promise.all(requests.map((request) => pullOne(request)));
+    }
+
+    const contexts = await Promise.all(
+      requests.map((request) => createPullContext(request))
+    );
+
+    const { url, init } = await buildPullBatchRequest({
+      baseUrl: normalizedBase,
+      headers,
+      contexts,
+      encode: encodeUpdate,
+    });
+
+    const response = await sendPull(url, init);
+    const parsed = await parsePullBatchResponse({
+      response,
+      contexts,
+      decode: decodeUpdate,
+    });
+    return Promise.all(
+      contexts.map((context, index) => applyPull(parsed[index], context))
+    );
+  };
+
+  let pendingPulls: Array<{
+    request: SyncPullRequest;
+    resolve: (result: Uint8Array | null) => void;
+    reject: (error: unknown) => void;
+  }> = [];
+  let pullTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const flushPulls = () => {
+    pullTimer = null;
+    const batch = pendingPulls;
+    pendingPulls = [];
+    pullMany(batch.map((item) => item.request)).then(
+      (results) => {
+        batch.forEach((item, index) => item.resolve(results[index] ?? null));
+      },
+      (error) => {
+        batch.forEach((item) => item.reject(error));
+      }
+    );
+  };
+
+  const pull: SyncAdapter['pull'] = (docId, stateVector, pullOptions) => {
+    const request: SyncPullRequest = {
+      docId,
+      stateVector,
+      options: pullOptions,
+    };
+    if (pullBatchWindow <= 0) {
+      return pullOne(request);
+    }
+    return new Promise((resolve, reject) => {
+      pendingPulls.push({ request, resolve, reject });
+      if (!pullTimer) {
+        pullTimer = setTimeout(flushPulls, pullBatchWindow);
+      }
+    });
+  };
+
+  const createPushContext = async ({
+    docId,
+    update,
+    options: pushOptions,
+  }: SyncPushRequest): Promise<PushContext> => ({
+    docId,
+    lastSynced: await accessor.get(docId),
+    update,
+    isSnapshot: pushOptions?.isSnapshot ?? false,
+    options: pushOptions,
+  });
+
+  const sendPush = async (url: string, init?: RequestInit) => {
     const response = await fetchImpl(url, {
       method: 'POST',
       headers,
@@ -231,29 +441,97 @@ export function createRestSyncAdapter(
       throw error;
     }
 
-    const parsed = await parsePushResponse({
-      response,
+    return response;
+  };
+
+  const resolvePush = async (
+    response: Response,
+    context: PushContext
+  ): Promise<SyncPushResult> =>
+    applyPush(await parsePushResponse({ response, context }), context);
+
+  const applyPush = async (
+    parsed: PushParseResult | undefined,
+    context: PushContext
+  ): Promise<SyncPushResult> => {
+    if (parsed?.error !== undefined) {
+      reportError(parsed.error);
+      return { docId: context.docId, error: parsed.error };
+    }
+
+    if (parsed?.dateLastSynced !== undefined) {
+      await accessor.set(context.docId, parsed.dateLastSynced);
+    }
+
+    return { docId: context.docId };
+  };
+
+  const push: SyncAdapter['push'] = async (docId, update, pushOptions) => {
+    const context = await createPushContext({
+      docId,
+      update,
+      options: pushOptions,
+    });
+
+    const { url, init } = await buildPushRequest({
+      baseUrl: normalizedBase,
+      headers,
       context,
+      encode: encodeUpdate,
     });
 
-    if (parsed?.dateLastSynced !== undefined) {
-      await accessor.set(docId, parsed.dateLastSynced);
+    const response = await sendPush(url, init);
+    const result = await resolvePush(response, context);
+    if (result.error !== undefined) {
+      throw result.error;
+    }
+  };
+
+  const pushMany: NonNullable<SyncAdapter['pushMany']> = async (requests) => {
+    if (requests.length === 0) {
+      return [];
     }
+    if (!buildPushBatchRequest || !parsePushBatchResponse) {
+      const settled = await Promise.allSettled(
+        requests.map(({ docId, update, options: pushOptions }) =>
+          push(docId, update, pushOptions)
+        )
+      );
+      return settled.map((outcome, index) => ({
+        docId: requests[index]!.docId,
+        ...(outcome.status === 'rejected' ? { error: outcome.reason } : {}),
+      }));
+    }
+
+    const contexts = await Promise.all(
+      requests.map((request) => createPushContext(request))
+    );
+
+    const { url, init } = await buildPushBatchRequest({
+      baseUrl: normalizedBase,
+      headers,
+      contexts,
+      encode: encodeUpdate,
+    });
+
+    const response = await sendPush(url, init);
+    const parsed = await parsePushBatchResponse({ response, contexts });
+    return Promise.all(
+      contexts.map((context, index) => applyPush(parsed[index], context))
+    );
   };
 
   return {
     pull,
+    pullMany,
     push,
+    pushMany,
+    withCursorStore: (store) => buildRestSyncAdapter(options, store),
   };
 }
 
 function defaultEncodeUpdate(update: Uint8Array): string {
-  if (typeof Buffer !== 'undefined') {
-    return Buffer.from(update).toString('base64');
-  }
-  const chars = Array.from(update, byte => String.fromCharCode(byte));
-  const binary = chars.join('');
-  return btoa(binary);
+  return encodeBase64(update);
 }
 
 function defaultDecodeUpdate(payload: unknown): Uint8Array {
@@ -267,15 +545,7 @@ function defaultDecodeUpdate(payload: unknown): Uint8Array {
     return Uint8Array.from(payload);
   }
   if (typeof payload === 'string') {
-    if (typeof Buffer !== 'undefined') {
-      return new Uint8Array(Buffer.from(payload, 'base64'));
-    }
-    const binary = atob(payload);
-    const bytes = new Uint8Array(binary.length);
-    for (let i = 0; i < binary.length; i += 1) {
-      bytes[i] = binary.charCodeAt(i);
-    }
-    return bytes;
+    return decodeBase64(payload);
   }
   throw new TypeError(
     '[sync-wiser][rest-sync] Unsupported payload format; provide a custom decodeUpdate()'
@@ -287,32 +557,73 @@ async function defaultParsePullResponse({
   context,
   decode,
 }: Parameters<PullResponseParser>[0]): Promise<PullParseResult> {
-  const json = await response.json();
+  const [result] = await defaultParsePullBatchResponse({
+    response,
+    contexts: [context],
+    decode,
+  });
+  return result ?? null;
+}
+
+async function defaultParsePullBatchResponse({
+  response,
+  contexts,
+  decode,
+}: Parameters<PullBatchResponseParser>[0]): Promise<PullParseResult[]> {
+  const entries = indexDocuments(await response.json());
+  return contexts.map((context) => {
+    const entry = entries.get(context.docId);
+    if (!entry) {
+      return null;
+    }
+
+    const updates: Uint8Array[] = Array.isArray(entry.updates)
+      ? entry.updates.map((item: unknown) => decode(item))
+      : [];
+
+    const snapshot =
+      entry.snapshot !== undefined && entry.snapshot !== null
+        ? decode(entry.snapshot)
+        : undefined;
+
+    return {
+      updates,
+      snapshot,
+      dateLastSynced:
+        typeof entry.dateLastSynced === 'string' ? entry.dateLastSynced : null,
+    };
+  });
+}
+
+// Map a `{ documents: [{ id, ... }] }` body by document id.
+function indexDocuments(json: any): Map<string, any> {
+  const entries = new Map<string, any>();
   if (!json || !Array.isArray(json.documents)) {
-    return null;
+    return entries;
   }
-  const entry = json.documents.find(
-    (doc: any) => doc?.id === context.docId
-  );
-  if (!entry) {
-    return null;
+  for (const doc of json.documents) {
+    if (typeof doc?.id === 'string' && !entries.has(doc.id)) {
+      entries.set(doc.id, doc);
+    }
   }
+  return entries;
+}
 
-  const updates: Uint8Array[] = Array.isArray(entry.updates)
-    ? entry.updates.map((item: unknown) => decode(item))
-    : [];
+function toPullDocument(
+  context: PullContext,
+  encode: (data: Uint8Array) => unknown
+): Record<string, unknown> {
+  const document: Record<string, unknown> = {
+    id: context.docId,
+    lastSynced: context.lastSynced,
+    requestSnapshot: context.options?.requestSnapshot ?? false,
+  };
 
-  const snapshot =
-    entry.snapshot !== undefined && entry.snapshot !== null
-      ? decode(entry.snapshot)
-      : undefined;
+  if (context.stateVector) {
+    document.stateVector = encode(context.stateVector);
+  }
 
-  return {
-    updates,
-    snapshot,
-    dateLastSynced:
-      typeof entry.dateLastSynced === 'string' ? entry.dateLastSynced : null,
-  };
+  return document;
 }
 
 function defaultBuildPullRequest({
@@ -321,23 +632,32 @@ function defaultBuildPullRequest({
   context,
   encode,
 }: Parameters<PullRequestBuilder>[0]): { url: string; init: RequestInit } {
-  const url = `${baseUrl}/pull`;
-  const document: Record<string, unknown> = {
-    id: context.docId,
-    lastSynced: context.lastSynced,
-    requestSnapshot: context.options?.requestSnapshot ?? false,
-  };
+  return defaultBuildPullBatchRequest({
+    baseUrl,
+    headers,
+    contexts: [context],
+    encode,
+  });
+}
 
-  if (context.stateVector) {
-    document.stateVector = encode(context.stateVector);
-  }
+function defaultBuildPullBatchRequest({
+  baseUrl,
+  headers,
+  contexts,
+  encode,
+}: Parameters<PullBatchRequestBuilder>[0]): {
+  url: string;
+  init: RequestInit;
+} {
+  const url = `${baseUrl}/pull`;
+  const documents = contexts.map((context) => toPullDocument(context, encode));
 
   return {
     url,
     init: {
       method: 'POST',
       headers,
-      body: JSON.stringify({ documents: [document] }),
+      body: JSON.stringify({ documents }),
     },
   };
 }
@@ -345,23 +665,43 @@ function defaultBuildPullRequest({
 async function defaultParsePushResponse({
   response,
   context,
-}: Parameters<PushResponseParser>[0]): Promise<{
-  dateLastSynced: string | null;
-} | null> {
-  const json = await response.json();
-  if (!json || !Array.isArray(json.documents)) {
-    return null;
-  }
-  const entry = json.documents.find(
-    (doc: any) => doc?.id === context.docId
-  );
-  if (!entry) {
-    return null;
-  }
-  return {
-    dateLastSynced:
-      typeof entry.dateLastSynced === 'string' ? entry.dateLastSynced : null,
-  };
+}: Parameters<PushResponseParser>[0]): Promise<PushParseResult> {
+  const [result] = await defaultParsePushBatchResponse({
+    response,
+    contexts: [context],
+  });
+  return result ?? null;
+}
+
+async function defaultParsePushBatchResponse({
+  response,
+  contexts,
+}: Parameters<PushBatchResponseParser>[0]): Promise<PushParseResult[]> {
+  const entries = indexDocuments(await response.json());
+  return contexts.map((context) => {
+    const entry = entries.get(context.docId);
+    if (!entry) {
+      return null;
+    }
+    if (entry.error !== undefined && entry.error !== null) {
+      const message =
+        typeof entry.error === 'string'
+          ? entry.error
+          : typeof entry.error?.message === 'string'
+            ? entry.error.message
+            : 'rejected by server';
+      return {
+        dateLastSynced: null,
+        error: new Error(
+          `[sync-wiser][rest-sync] Push rejected for document "${context.docId}": ${message}`
+        ),
+      };
+    }
+    return {
+      dateLastSynced:
+        typeof entry.dateLastSynced === 'string' ? entry.dateLastSynced : null,
+    };
+  });
 }
 
 function defaultBuildPushRequest({
@@ -370,20 +710,37 @@ function defaultBuildPushRequest({
   context,
   encode,
 }: Parameters<PushRequestBuilder>[0]): { url: string; init: RequestInit } {
+  return defaultBuildPushBatchRequest({
+    baseUrl,
+    headers,
+    contexts: [context],
+    encode,
+  });
+}
+
+function defaultBuildPushBatchRequest({
+  baseUrl,
+  headers,
+  contexts,
+  encode,
+}: Parameters<PushBatchRequestBuilder>[0]): {
+  url: string;
+  init: RequestInit;
+} {
   const url = `${baseUrl}/push`;
-  const document = {
+  const documents = contexts.map((context) => ({
     id: context.docId,
     update: encode(context.update),
     isSnapshot: context.isSnapshot,
     lastSynced: context.lastSynced,
-  };
+  }));
 
   return {
     url,
     init: {
       method: 'POST',
       headers,
-      body: JSON.stringify({ documents: [document] }),
+      body: JSON.stringify({ documents }),
     },
   };
 }
@@ -24,6 +24,22 @@ export type StorageAdapter = {
   markPendingSync?(docId: string, updates: Uint8Array[]): Promise<void>;
   clearPendingSync?(docId: string): Promise<void>;
   markSnapshotSynced?(docId: string, generation: number): Promise<void>;
+  compact?(docId: string, upToSnapshotGeneration: number): Promise<void>;
+  /**
+   * Sync checkpoints kept next to the document, keyed by the sync adapter that
+   * owns them. `remove(docId)` must clear them along with the document.
+   */
+  getSyncCursor?(docId: string, adapterKey: string): Promise<string | null>;
+  setSyncCursor?(
+    docId: string,
+    adapterKey: string,
+    cursor: string | null
+  ): Promise<void>;
+};
+
+export type SyncCursorStore = {
+  get(docId: string, adapterKey: string): Promise<string | null>;
+  set(docId: string, adapterKey: string, cursor: string | null): Promise<void>;
 };
 
 export type SyncPullOptions = {
@@ -34,27 +50,144 @@ export type SyncPushOptions = {
   isSnapshot?: boolean;
 };
 
+export type SyncPullRequest = {
+  docId: string;
+  stateVector?: Uint8Array;
+  options?: SyncPullOptions;
+};
+
+export type SyncPushRequest = {
+  docId: string;
+  update: Uint8Array;
+  options?: SyncPushOptions;
+};
+
+/**
+ * Outcome of one document in a `pushMany()` call. A present `error` means the
+ * server rejected that document's update; the others are still acknowledged.
+ */
+export type SyncPushResult = {
+  docId: string;
+  error?: unknown;
+};
+
 export type SyncAdapter = {
   pull(
     docId: string,
     stateVector?: Uint8Array,
     options?: SyncPullOptions
   ): Promise<Uint8Array | null>;
+  /**
+   * Optional bulk pull. Resolves one result per request, in request order.
+   * The runtime uses it to hydrate several documents in a single round trip.
+   */
+  pullMany?(requests: SyncPullRequest[]): Promise<Array<Uint8Array | null>>;
   push(
     docId: string,
     update: Uint8Array,
     options?: SyncPushOptions
   ): Promise<void>;
+  /**
+   * Optional bulk push. Resolves one result per request, in request order;
+   * rejects only when the whole call failed.
+   */
+  pushMany?(requests: SyncPushRequest[]): Promise<SyncPushResult[]>;
+  /**
+   * Called by the runtime when its storage adapter can persist sync cursors,
+   * so checkpoints survive reloads without extra wiring. Returns an adapter
+   * bound to `store`; the original must be left unchanged, since several
+   * runtimes may share it.
+   */
+  withCursorStore?(store: SyncCursorStore): SyncAdapter;
 };
 
+export type RealtimeSubscribeContext = {
+  getStateVector(): Uint8Array;
+  encodeStateAsUpdate(stateVector?: Uint8Array): Promise<Uint8Array>;
+  /**
+   * Tell the runtime updates may have been missed (e.g. after a reconnect) so it
+   * pulls the document from `sync` again.
+   */
+  resync?(): void;
+};
+
+/**
+ * Identifies the publisher of a realtime update and its position in that
+ * publisher's stream for the document. Sequence numbers start at 1 and grow
+ * by one per published update.
+ */
+export type RealtimeUpdateMeta = {
+  clientId: string;
+  seq: number;
+};
+
+export type RealtimeConnectionState =
+  | 'connecting'
+  | 'connected'
+  | 'reconnecting'
+  | 'disconnected';
+
 export type RealtimeAdapter = {
-  subscribe(docId: string, onUpdate: (update: Uint8Array) => void): () => void;
-  publish(docId: string, update: Uint8Array): Promise<void>;
+  /**
+   * Adapters that carry `RealtimeUpdateMeta` pass it along with each update so the
+   * runtime can drop its own echoes and notice missed updates.
+   */
+  subscribe(
+    docId: string,
+    onUpdate: (update: Uint8Array, meta?: RealtimeUpdateMeta) => void,
+    context?: RealtimeSubscribeContext
+  ): () => void;
+  publish(
+    docId: string,
+    update: Uint8Array,
+    meta?: RealtimeUpdateMeta
+  ): Promise<void>;
+  publishAwareness?(docId: string, update: Uint8Array): Promise<void>;
+  subscribeAwareness?(
+    docId: string,
+    onUpdate: (update: Uint8Array) => void
+  ): () => void;
+  /**
+   * Report the transport's connection state. The listener is called with the
+   * current state right away and again on every change.
+   */
+  onStatusChange?(
+    listener: (state: RealtimeConnectionState) => void
+  ): () => void;
 };
 
+/**
+ * Transforms every payload on its way to storage, sync and realtime (and back).
+ * Either method may return a promise, e.g. for WebCrypto-based encryption.
+ */
 export type CodecAdapter = {
-  encode(update: Uint8Array): Uint8Array;
-  decode(update: Uint8Array): Uint8Array;
+  encode(update: Uint8Array): Uint8Array | Promise<Uint8Array>;
+  decode(update: Uint8Array): Uint8Array | Promise<Uint8Array>;
+};
+
+/**
+ * Codecs per boundary. Channels left out pass payloads through unchanged, e.g.
+ * `{ storage: encryption }` encrypts at rest while the server sees plain Yjs updates.
+ */
+export type ChannelCodecs = {
+  storage?: CodecAdapter;
+  sync?: CodecAdapter;
+  realtime?: CodecAdapter;
+};
+
+export type CodecChannel = keyof ChannelCodecs;
+
+export type RetryPolicy = {
+  initialDelay?: number;
+  maxDelay?: number;
+  multiplier?: number;
+  jitter?: number;
+  maxAttempts?: number;
+};
+
+export type ConnectivityAdapter = {
+  isOnline(): boolean;
+  subscribe(listener: (online: boolean) => void): () => void;
 };
 
 export type Policies = {
@@ -68,6 +201,53 @@ export type Policies = {
     send?: boolean;
     requestOnNewDocument?: boolean;
   };
+  retry?: RetryPolicy | false;
+  pushBatch?: {
+    maxUpdates?: number;
+    maxBytes?: number;
+  };
+  pushCoalesce?: {
+    window?: number;
+    maxDocuments?: number;
+  };
+};
+
+export type LeaderElection = {
+  isLeader(): boolean;
+  /**
+   * Called whenever this tab gains or loses leadership.
+   */
+  subscribe(listener: (isLeader: boolean) => void): () => void;
+  dispose(): void;
+};
+
+export type TabCoordinationOptions = {
+  /**
+   * Tabs with the same namespace elect one leader. They must share persistent
+   * storage, so scope it the same way as the storage adapter.
+   */
+  namespace: string;
+  /**
+   * Defaults to `createLeaderElection({ name: 'sync-wiser-leader:<namespace>' })`.
+   */
+  election?: LeaderElection;
+  /**
+   * Channel used to talk to the other tabs. Defaults to `globalThis.BroadcastChannel`.
+   */
+  BroadcastChannel?: new (name: string) => {
+    onmessage: ((event: { data: unknown }) => void) | null;
+    postMessage(message: unknown): void;
+    close(): void;
+  };
+  /**
+   * Milliseconds a follower waits for the leader to answer a pull, and before
+   * it first re-sends an edit the leader has not acknowledged (later attempts
+   * wait twice as long each time, up to a minute). Followers also renew the
+   * documents they asked the leader to relay at this interval, and the leader
+   * stops relaying a document for a tab that has not renewed it for three
+   * intervals. Defaults to `10000`.
+   */
+  requestTimeout?: number;
 };
 
 export type CacheOptions = {
@@ -78,9 +258,15 @@ export type WiserConfig = {
   storage: StorageAdapter;
   sync?: SyncAdapter;
   realtime?: RealtimeAdapter;
-  codec?: CodecAdapter;
+  codec?: CodecAdapter | ChannelCodecs;
+  connectivity?: ConnectivityAdapter;
   policies?: Policies;
   cache?: CacheOptions;
+  /**
+   * Opt-in cross-tab coordination: one elected tab runs `sync` and `realtime`
+   * for every tab in the namespace, the others forward their edits to it.
+   */
+  tabs?: TabCoordinationOptions;
   logger?: {
     debug?: (...args: unknown[]) => void;
     info?: (...args: unknown[]) => void;
@@ -103,8 +289,29 @@ export type YHelpers = {
   xmlFragment(): Y.XmlFragment;
 };
 
+export type WiserMigrationContext = {
+  doc: Y.Doc;
+  root: Y.Map<unknown>;
+  helpers: YHelpers;
+};
+
+export type WiserMigration = (context: WiserMigrationContext) => void;
+
+export type WiserUndoOptions = {
+  keys?: string[];
+  captureTimeout?: number;
+};
+
+export type WiserModelOptions = {
+  version?: number;
+  migrations?: Record<number, WiserMigration>;
+  undo?: WiserUndoOptions;
+};
+
 export type WiserModel<TShape extends Record<string, unknown>> = {
   name: string;
+  version: number;
+  undo?: WiserUndoOptions;
   instantiate(doc?: Y.Doc): { doc: Y.Doc; data: TShape };
   ensureStructure(doc: Y.Doc): TShape;
 };
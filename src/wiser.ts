@@ -1,9 +1,21 @@
 import * as Y from 'yjs';
-import type { WiserModel, YHelpers } from './types';
+import type {
+  WiserMigration,
+  WiserModel,
+  WiserModelOptions,
+  YHelpers,
+} from './types';
 
 type ModelShape = Record<string, unknown>;
 
-const ROOT_MAP_NAME = '__wiser_root__';
+export const ROOT_MAP_NAME = '__wiser_root__';
+const META_MAP_NAME = '__wiser_meta__';
+const VERSION_KEY = 'version';
+
+/**
+ * Transaction origin used while migrations rewrite a document.
+ */
+export const MIGRATION_ORIGIN = Symbol('wiser/migration');
 
 function createHelpers(): YHelpers {
   return {
@@ -16,13 +28,83 @@ function createHelpers(): YHelpers {
   };
 }
 
+// Docs written before versioning existed carry no version but do have
+// content; treat them as version 1 so the first migration applies.
+function readVersion(doc: Y.Doc, root: Y.Map<unknown>): number | null {
+  const stored = doc.getMap<unknown>(META_MAP_NAME).get(VERSION_KEY);
+  if (typeof stored === 'number') {
+    return stored;
+  }
+  return root.size > 0 ? 1 : null;
+}
+
+function migrate(
+  doc: Y.Doc,
+  root: Y.Map<unknown>,
+  name: string,
+  version: number,
+  migrations: Record<number, WiserMigration>
+) {
+  const current = readVersion(doc, root);
+  const meta = doc.getMap<unknown>(META_MAP_NAME);
+  if (current === null) {
+    // Fresh doc: nothing to migrate, just stamp the version with the scaffolding.
+    if (meta.get(VERSION_KEY) !== version) {
+      meta.set(VERSION_KEY, version);
+    }
+    return;
+  }
+  if (current >= version) {
+    return;
+  }
+
+  // Yjs cannot roll a transaction back, so the steps run on a scratch copy
+  // (same client id, so their edits read as this client's) and the result is
+  // applied only once every step succeeded. A failed step leaves `doc` as it
+  // was, and the next attempt starts over from the stored version.
+  const scratch = new Y.Doc({ gc: doc.gc });
+  scratch.clientID = doc.clientID;
+  Y.applyUpdate(scratch, Y.encodeStateAsUpdate(doc));
+  const scratchRoot = scratch.getMap<unknown>(ROOT_MAP_NAME);
+  try {
+    scratch.transact(() => {
+      for (let next = current + 1; next <= version; next += 1) {
+        const step = migrations[next];
+        if (!step) continue;
+        try {
+          step({ doc: scratch, root: scratchRoot, helpers: createHelpers() });
+        } catch (error) {
+          throw new Error(
+            `[sync-wiser] Migration of model "${name}" to version ${next} failed: ${
+              error instanceof Error ? error.message : String(error)
+            }`
+          );
+        }
+      }
+      scratch.getMap<unknown>(META_MAP_NAME).set(VERSION_KEY, version);
+    });
+    Y.applyUpdate(
+      doc,
+      Y.encodeStateAsUpdate(scratch, Y.encodeStateVector(doc)),
+      MIGRATION_ORIGIN
+    );
+  } finally {
+    scratch.destroy();
+  }
+}
+
 function ensureStructure<TShape extends ModelShape>(
   doc: Y.Doc,
   keys: Iterable<string>,
-  factory: () => TShape
+  factory: () => TShape,
+  name: string,
+  version: number,
+  migrations: Record<number, WiserMigration>
 ): TShape {
   const root = doc.getMap<unknown>(ROOT_MAP_NAME);
 
+  migrate(doc, root, name, version, migrations);
+
   for (const [key, value] of Object.entries(factory())) {
     if (!root.has(key)) {
       root.set(key, value);
@@ -39,16 +121,32 @@ function ensureStructure<TShape extends ModelShape>(
 export const Wiser = {
   define<TShape extends ModelShape>(
     name: string,
-    factory: (helpers: YHelpers) => TShape
+    factory: (helpers: YHelpers) => TShape,
+    options: WiserModelOptions = {}
   ): WiserModel<TShape> {
+    const { version = 1, migrations = {}, undo } = options;
+    if (!Number.isInteger(version) || version < 1) {
+      throw new Error(
+        `[sync-wiser] Model "${name}" version must be a positive integer.`
+      );
+    }
     const shape = factory(createHelpers());
     const keys = Object.keys(shape);
 
     const initialize = (doc: Y.Doc): TShape =>
-      ensureStructure(doc, keys, () => factory(createHelpers()));
+      ensureStructure(
+        doc,
+        keys,
+        () => factory(createHelpers()),
+        name,
+        version,
+        migrations
+      );
 
     return {
       name,
+      version,
+      undo,
       instantiate(doc?: Y.Doc) {
         const targetDoc = doc ?? new Y.Doc();
         const data = initialize(targetDoc);
@@ -61,4 +159,10 @@ export const Wiser = {
   },
 };
 
-export type { WiserModel } from './types';
+export type {
+  WiserMigration,
+  WiserMigrationContext,
+  WiserModel,
+  WiserModelOptions,
+  WiserUndoOptions,
+} from './types';
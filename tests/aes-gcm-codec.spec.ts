@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { webcrypto } from 'node:crypto';
+import { Wiser } from '../src/wiser';
+import { WiserRuntime } from '../src/runtime/runtime';
+import { createInMemoryStorageAdapter } from '../src/storage/inMemoryStorageAdapter';
+import { createAesGcmCodec } from '../src/codec/aesGcmCodec';
+import type { AesGcmKeyProvider } from '../src/codec/aesGcmCodec';
+
+const Counter = Wiser.define('Counter', (y) => ({
+  stats: y.map<number>(),
+}));
+
+function createRotatingKeys() {
+  const keys = new Map<string, Uint8Array>();
+  let currentId = '';
+  const rotate = (id: string) => {
+    keys.set(id, webcrypto.getRandomValues(new Uint8Array(32)));
+    currentId = id;
+  };
+  const keyProvider: AesGcmKeyProvider = {
+    getCurrentKey: () => ({ id: currentId, key: keys.get(currentId)! }),
+    getKey: async (id) => keys.get(id) ?? null,
+  };
+  rotate('k1');
+  return { keyProvider, rotate };
+}
+
+describe('createAesGcmCodec', () => {
+  it('prefixes ciphertexts with the key id and keeps old keys readable after rotation', async () => {
+    const { keyProvider, rotate } = createRotatingKeys();
+    const codec = createAesGcmCodec({
+      keyProvider,
+      crypto: webcrypto as unknown as Crypto,
+    });
+    const plaintext = new Uint8Array([1, 2, 3, 4, 5]);
+
+    const before = await codec.encode(plaintext);
+    expect(before[0]).toBe(1);
+    expect(new TextDecoder().decode(before.subarray(2, 2 + before[1]!))).toBe('k1');
+    // Version, key id, 12-byte nonce, then ciphertext plus the 16-byte tag.
+    const ciphertext = before.subarray(2 + before[1]! + 12);
+    expect(ciphertext.byteLength).toBe(plaintext.byteLength + 16);
+    expect(Array.from(ciphertext.subarray(0, 5))).not.toEqual([1, 2, 3, 4, 5]);
+
+    rotate('k2');
+    const after = await codec.encode(plaintext);
+    expect(new TextDecoder().decode(after.subarray(2, 2 + after[1]!))).toBe('k2');
+
+    expect(Array.from(await codec.decode(before))).toEqual([1, 2, 3, 4, 5]);
+    expect(Array.from(await codec.decode(after))).toEqual([1, 2, 3, 4, 5]);
+
+    // Fresh nonces make identical plaintexts encrypt differently.
+    expect(Array.from(await codec.encode(plaintext))).not.toEqual(Array.from(after));
+  });
+
+  it('rejects unknown key ids and tampered payloads', async () => {
+    const { keyProvider } = createRotatingKeys();
+    const codec = createAesGcmCodec({
+      keyProvider,
+      crypto: webcrypto as unknown as Crypto,
+    });
+    const other = createAesGcmCodec({
+      keyProvider: {
+        getCurrentKey: () => ({ id: 'other', key: new Uint8Array(16) }),
+        getKey: () => null,
+      },
+      crypto: webcrypto as unknown as Crypto,
+    });
+
+    const foreign = await other.encode(new Uint8Array([9]));
+    await expect(codec.decode(foreign)).rejects.toThrow('Unknown key id "other"');
+
+    const tampered = (await codec.encode(new Uint8Array([7, 7, 7]))).slice();
+    tampered[tampered.length - 1]! ^= 0xff;
+    await expect(codec.decode(tampered)).rejects.toThrow();
+  });
+
+  it('encrypts what the runtime persists and rehydrates through the async codec', async () => {
+    const { keyProvider, rotate } = createRotatingKeys();
+    const codec = createAesGcmCodec({
+      keyProvider,
+      crypto: webcrypto as unknown as Crypto,
+    });
+    const storage = createInMemoryStorageAdapter();
+
+    const writer = new WiserRuntime({ storage, codec });
+    const handle = await writer.getDocument('secret-doc', Counter);
+    await handle.mutate((draft) => {
+      draft.stats.set('count', 42);
+    });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    const stored = (await storage.getUpdates!('secret-doc')) ?? [];
+    expect(stored.length).toBeGreaterThan(0);
+    for (const update of stored) {
+      expect(Array.from(update.subarray(0, 4))).toEqual([1, 2, 107, 49]);
+    }
+
+    rotate('k2');
+    const reader = new WiserRuntime({ storage, codec });
+    const reloaded = await reader.getDocument('secret-doc', Counter);
+    expect(reloaded.data.stats.get('count')).toBe(42);
+  });
+});
@@ -0,0 +1,88 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import * as Y from 'yjs';
+import { createBroadcastChannelRealtimeAdapter } from '../src/realtime/broadcastChannelAdapter';
+import type { BroadcastChannelRealtimeAdapter } from '../src/realtime/broadcastChannelAdapter';
+import { WiserRuntime } from '../src/runtime/runtime';
+import { createInMemoryStorageAdapter } from '../src/storage/inMemoryStorageAdapter';
+import { Wiser } from '../src/wiser';
+
+const Counter = Wiser.define('Counter', (y) => ({
+  stats: y.map<number>(),
+}));
+
+describe('createBroadcastChannelRealtimeAdapter', () => {
+  const adapters: BroadcastChannelRealtimeAdapter[] = [];
+
+  // Each "tab" gets its own runtime, storage and channel endpoint.
+  const openTab = (channelName: string) => {
+    const realtime = createBroadcastChannelRealtimeAdapter({ channelName });
+    adapters.push(realtime);
+    const storage = createInMemoryStorageAdapter();
+    return { runtime: new WiserRuntime({ storage, realtime }), storage };
+  };
+
+  afterEach(() => {
+    for (const adapter of adapters.splice(0)) {
+      adapter.dispose();
+    }
+  });
+
+  it('relays updates between tabs without a server', async () => {
+    const first = await openTab('tabs-relay').runtime.getDocument('doc', Counter);
+    const tab = openTab('tabs-relay');
+    await tab.storage.appendUpdate('doc', Y.encodeStateAsUpdate(first.doc));
+    const second = await tab.runtime.getDocument('doc', Counter);
+
+    await first.mutate((draft) => {
+      draft.stats.set('clicks', 1);
+    });
+
+    await vi.waitFor(() => {
+      expect(second.data.stats.get('clicks')).toBe(1);
+    });
+  });
+
+  it('exchanges missing state with a tab that joins later', async () => {
+    const first = await openTab('tabs-handshake').runtime.getDocument('doc', Counter);
+    const tab = openTab('tabs-handshake');
+    // Both tabs start from the same scaffolding, then diverge: the newcomer
+    // holds an edit the first tab has never seen and vice versa.
+    await tab.storage.appendUpdate('doc', Y.encodeStateAsUpdate(first.doc));
+    await first.mutate((draft) => {
+      draft.stats.set('before', 1);
+    });
+    const offline = await new WiserRuntime({ storage: tab.storage }).getDocument(
+      'doc',
+      Counter
+    );
+    await offline.mutate((draft) => {
+      draft.stats.set('offline', 2);
+    });
+
+    const second = await tab.runtime.getDocument('doc', Counter);
+
+    await vi.waitFor(() => {
+      expect(second.data.stats.get('before')).toBe(1);
+      expect(first.data.stats.get('offline')).toBe(2);
+    });
+  });
+
+  it('ignores other channels and its own messages', async () => {
+    const received: number[][] = [];
+    const own = createBroadcastChannelRealtimeAdapter({ channelName: 'tabs-a' });
+    const other = createBroadcastChannelRealtimeAdapter({ channelName: 'tabs-b' });
+    const peer = createBroadcastChannelRealtimeAdapter({ channelName: 'tabs-a' });
+    adapters.push(own, other, peer);
+    own.subscribe('doc', (update) => received.push(Array.from(update)));
+    other.subscribe('doc', () => undefined);
+    peer.subscribe('doc', () => undefined);
+
+    await own.publish('doc', Uint8Array.from([1]));
+    await other.publish('doc', Uint8Array.from([2]));
+    await peer.publish('doc', Uint8Array.from([3]));
+
+    await vi.waitFor(() => {
+      expect(received).toEqual([[3]]);
+    });
+  });
+});
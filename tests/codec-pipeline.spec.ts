@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { webcrypto } from 'node:crypto';
+import { Wiser } from '../src/wiser';
+import { WiserRuntime } from '../src/runtime/runtime';
+import { createInMemoryStorageAdapter } from '../src/storage/inMemoryStorageAdapter';
+import { composeCodecs } from '../src/codec/composeCodecs';
+import { createChecksumCodec, crc32 } from '../src/codec/checksumCodec';
+import { createCompressionCodec } from '../src/codec/compressionCodec';
+import { createAesGcmCodec } from '../src/codec/aesGcmCodec';
+import { CorruptPayloadError } from '../src/errors';
+import type { CodecAdapter, RealtimeAdapter } from '../src/types';
+
+const Counter = Wiser.define('Counter', (y) => ({
+  stats: y.map<number>(),
+}));
+
+const tagCodec = (tag: number): CodecAdapter => ({
+  encode: (update) => Uint8Array.from([...update, tag]),
+  decode: (payload) => {
+    expect(payload[payload.length - 1]).toBe(tag);
+    return payload.slice(0, -1);
+  },
+});
+
+describe('composeCodecs', () => {
+  it('encodes left to right and decodes right to left', async () => {
+    const codec = composeCodecs(tagCodec(1), tagCodec(2), createChecksumCodec());
+    const encoded = await codec.encode(new Uint8Array([9]));
+    expect(Array.from(encoded.subarray(0, 3))).toEqual([9, 1, 2]);
+    expect(Array.from(await codec.decode(encoded))).toEqual([9]);
+  });
+
+  it('chains compression, encryption and a checksum', async () => {
+    const key = webcrypto.getRandomValues(new Uint8Array(32));
+    const codec = composeCodecs(
+      createCompressionCodec({ threshold: 0 }),
+      createAesGcmCodec({
+        keyProvider: { getCurrentKey: () => ({ id: 'k', key }), getKey: () => key },
+        crypto: webcrypto as unknown as Crypto,
+      }),
+      createChecksumCodec()
+    );
+    const update = new TextEncoder().encode('wiser '.repeat(100));
+    const encoded = await codec.encode(update);
+    expect(encoded.byteLength).toBeLessThan(update.byteLength);
+    expect(Array.from(await codec.decode(encoded))).toEqual(Array.from(update));
+  });
+});
+
+describe('createChecksumCodec', () => {
+  it('appends a CRC32 and rejects altered payloads', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+
+    const codec = createChecksumCodec();
+    const encoded = codec.encode(new Uint8Array([1, 2, 3])) as Uint8Array;
+    expect(Array.from(codec.decode(encoded) as Uint8Array)).toEqual([1, 2, 3]);
+
+    const altered = encoded.slice();
+    altered[0] = 7;
+    expect(() => codec.decode(altered)).toThrow(CorruptPayloadError);
+    expect(() => codec.decode(new Uint8Array([1]))).toThrow(CorruptPayloadError);
+  });
+
+  it('skips corrupt stored and realtime payloads and reports them with the docId', async () => {
+    const storage = createInMemoryStorageAdapter();
+    const codec = createChecksumCodec();
+
+    const writer = new WiserRuntime({ storage, codec });
+    const handle = await writer.getDocument('doc-crc', Counter);
+    await handle.mutate((draft) => {
+      draft.stats.set('count', 3);
+    });
+    const garbage = codec.encode(new Uint8Array([0, 0])) as Uint8Array;
+    garbage[0] = 1;
+    await storage.appendUpdate('doc-crc', garbage);
+
+    let deliver: (update: Uint8Array) => void = () => undefined;
+    const realtime: RealtimeAdapter = {
+      subscribe: (_docId, onUpdate) => {
+        deliver = onUpdate;
+        return () => undefined;
+      },
+      publish: async () => undefined,
+    };
+    const errors: unknown[] = [];
+    const reader = new WiserRuntime({
+      storage,
+      codec,
+      realtime,
+      onError: (error) => errors.push(error),
+    });
+    const reloaded = await reader.getDocument('doc-crc', Counter);
+    expect(reloaded.data.stats.get('count')).toBe(3);
+
+    deliver(new Uint8Array([1, 2, 3, 4, 5]));
+
+    expect(errors).toHaveLength(2);
+    for (const error of errors) {
+      expect(error).toBeInstanceOf(CorruptPayloadError);
+      expect((error as CorruptPayloadError).docId).toBe('doc-crc');
+    }
+  });
+});
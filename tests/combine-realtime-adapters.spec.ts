@@ -0,0 +1,180 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { combineRealtimeAdapters } from '../src/realtime/combineRealtimeAdapters';
+import type { RealtimeAdapter, RealtimeConnectionState } from '../src/types';
+
+function createFakeTransport() {
+  const listeners = new Map<string, Set<(update: Uint8Array) => void>>();
+  const published: Array<[string, number[]]> = [];
+  let failPublish: Error | null = null;
+  const adapter: RealtimeAdapter = {
+    subscribe(docId, onUpdate) {
+      const set = listeners.get(docId) ?? new Set();
+      set.add(onUpdate);
+      listeners.set(docId, set);
+      return () => set.delete(onUpdate);
+    },
+    async publish(docId, update) {
+      if (failPublish) throw failPublish;
+      published.push([docId, Array.from(update)]);
+    },
+  };
+  return {
+    adapter,
+    published,
+    deliver(docId: string, bytes: number[]) {
+      for (const listener of listeners.get(docId) ?? []) {
+        listener(Uint8Array.from(bytes));
+      }
+    },
+    failWith(error: Error | null) {
+      failPublish = error;
+    },
+    listenerCount: (docId: string) => listeners.get(docId)?.size ?? 0,
+  };
+}
+
+describe('combineRealtimeAdapters', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('fans out publishes and delivers an update seen on several transports once', async () => {
+    vi.useFakeTimers();
+    const tabs = createFakeTransport();
+    const network = createFakeTransport();
+    const realtime = combineRealtimeAdapters(
+      [
+        { name: 'tabs', adapter: tabs.adapter },
+        { name: 'network', adapter: network.adapter },
+      ],
+      { dedupeWindow: 1_000 }
+    );
+    const received: number[][] = [];
+    const unsubscribe = realtime.subscribe('doc', (update) =>
+      received.push(Array.from(update))
+    );
+
+    await realtime.publish('doc', Uint8Array.from([1, 2]));
+    expect(tabs.published).toEqual([['doc', [1, 2]]]);
+    expect(network.published).toEqual([['doc', [1, 2]]]);
+
+    tabs.deliver('doc', [7, 7]);
+    network.deliver('doc', [7, 7]);
+    network.deliver('doc', [8]);
+    expect(received).toEqual([[7, 7], [8]]);
+
+    vi.advanceTimersByTime(1_000);
+    network.deliver('doc', [7, 7]);
+    expect(received).toEqual([[7, 7], [8], [7, 7]]);
+
+    unsubscribe();
+    expect(tabs.listenerCount('doc')).toBe(0);
+    expect(network.listenerCount('doc')).toBe(0);
+  });
+
+  it('keeps publishing through healthy transports and reports per-transport health', async () => {
+    const tabs = createFakeTransport();
+    const network = createFakeTransport();
+    const onError = vi.fn();
+    const onHealthChange = vi.fn();
+    const realtime = combineRealtimeAdapters(
+      [
+        { name: 'tabs', adapter: tabs.adapter },
+        { name: 'network', adapter: network.adapter },
+      ],
+      { onError, onHealthChange }
+    );
+
+    const outage = new Error('offline');
+    network.failWith(outage);
+    await expect(
+      realtime.publish('doc', Uint8Array.from([1]))
+    ).resolves.toBeUndefined();
+    expect(tabs.published).toEqual([['doc', [1]]]);
+    expect(onError).toHaveBeenCalledWith(outage);
+    expect(realtime.getHealth()).toEqual([
+      expect.objectContaining({ name: 'tabs', healthy: true }),
+      expect.objectContaining({
+        name: 'network',
+        healthy: false,
+        consecutiveFailures: 1,
+        lastError: outage,
+      }),
+    ]);
+
+    tabs.failWith(new Error('closed'));
+    await expect(realtime.publish('doc', Uint8Array.from([2]))).rejects.toThrow(
+      /Every transport failed/
+    );
+
+    network.failWith(null);
+    await realtime.publish('doc', Uint8Array.from([3]));
+    expect(realtime.getHealth()[1]).toMatchObject({
+      healthy: true,
+      consecutiveFailures: 0,
+    });
+    expect(onHealthChange).toHaveBeenLastCalledWith(
+      expect.objectContaining({ name: 'network', healthy: true })
+    );
+  });
+
+  it('isolates a transport whose subscribe throws', () => {
+    const healthy = createFakeTransport();
+    const broken: RealtimeAdapter = {
+      subscribe() {
+        throw new Error('cannot subscribe');
+      },
+      async publish() {},
+    };
+    const realtime = combineRealtimeAdapters([broken, healthy.adapter], {
+      onError: () => undefined,
+    });
+    const received: number[][] = [];
+
+    realtime.subscribe('doc', (update) => received.push(Array.from(update)));
+    healthy.deliver('doc', [5]);
+
+    expect(received).toEqual([[5]]);
+    expect(realtime.getHealth().map(({ name, healthy }) => [name, healthy])).toEqual([
+      ['transport-0', false],
+      ['transport-1', true],
+    ]);
+    expect(realtime.subscribeAwareness).toBeUndefined();
+  });
+
+  it('reports the best connection state among the transports that report one', () => {
+    const withStatus = (initial: RealtimeConnectionState) => {
+      const transport = createFakeTransport();
+      let listener: ((state: RealtimeConnectionState) => void) | null = null;
+      transport.adapter.onStatusChange = (next) => {
+        listener = next;
+        next(initial);
+        return () => {
+          listener = null;
+        };
+      };
+      return {
+        adapter: transport.adapter,
+        set: (state: RealtimeConnectionState) => listener?.(state),
+      };
+    };
+    const tabs = withStatus('connected');
+    const network = withStatus('connecting');
+    const combined = combineRealtimeAdapters([
+      tabs.adapter,
+      network.adapter,
+      createFakeTransport().adapter,
+    ]);
+
+    const states: RealtimeConnectionState[] = [];
+    const unsubscribe = combined.onStatusChange!((state) => states.push(state));
+    network.set('connected');
+    tabs.set('disconnected');
+    network.set('reconnecting');
+
+    expect(states).toEqual(['connected', 'reconnecting']);
+    unsubscribe();
+    network.set('connected');
+    expect(states).toHaveLength(2);
+  });
+});
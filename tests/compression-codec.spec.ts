@@ -0,0 +1,111 @@
+import { describe, expect, it, vi } from 'vitest';
+import * as Y from 'yjs';
+import { Wiser } from '../src/wiser';
+import { WiserRuntime } from '../src/runtime/runtime';
+import { createLocalStorageAdapter } from '../src/storage/localStorageAdapter';
+import { createCompressionCodec } from '../src/codec/compressionCodec';
+import { createZlibCompressor } from '../src/codec/zlibCompressor';
+
+const Notes = Wiser.define('Notes', (y) => ({
+  meta: y.map<string>(),
+}));
+
+function createLargeUpdate() {
+  const doc = new Y.Doc();
+  doc.getText('body').insert(0, 'sync-wiser '.repeat(200));
+  return Y.encodeStateAsUpdate(doc);
+}
+
+function createMemoryStorage(): Storage {
+  const store = new Map<string, string>();
+  return {
+    get length() {
+      return store.size;
+    },
+    key: (index) => Array.from(store.keys())[index] ?? null,
+    getItem: (key) => store.get(key) ?? null,
+    setItem: (key, value) => {
+      store.set(key, value);
+    },
+    removeItem: (key) => {
+      store.delete(key);
+    },
+    clear: () => store.clear(),
+  };
+}
+
+describe('createCompressionCodec', () => {
+  it('compresses large payloads behind a header and round-trips them', async () => {
+    const update = createLargeUpdate();
+    for (const format of ['deflate', 'gzip'] as const) {
+      const codec = createCompressionCodec({ format });
+      const encoded = await codec.encode(update);
+      expect(encoded[0]).toBe(0xfe);
+      expect(encoded.byteLength).toBeLessThan(update.byteLength);
+      expect(Array.from(await codec.decode(encoded))).toEqual(Array.from(update));
+    }
+  });
+
+  it('leaves payloads below the threshold and legacy payloads untouched', async () => {
+    const codec = createCompressionCodec({ threshold: 64 });
+    const tiny = new Uint8Array([1, 2, 3]);
+    expect(await codec.encode(tiny)).toBe(tiny);
+
+    const legacy = createLargeUpdate();
+    expect(await codec.decode(legacy)).toBe(legacy);
+
+    const lookalike = new Uint8Array([0xfe, 0x7d, 9]);
+    const escaped = await codec.encode(lookalike);
+    expect(escaped).not.toBe(lookalike);
+    expect(Array.from(await codec.decode(escaped))).toEqual([0xfe, 0x7d, 9]);
+  });
+
+  it('reads zlib output with the stream backend and vice versa', async () => {
+    const update = createLargeUpdate();
+    const streams = createCompressionCodec();
+    const zlib = createCompressionCodec({ compressor: createZlibCompressor() });
+
+    expect(Array.from(await streams.decode(await zlib.encode(update)))).toEqual(
+      Array.from(update)
+    );
+    expect(Array.from(await zlib.decode(await streams.encode(update)))).toEqual(
+      Array.from(update)
+    );
+  });
+
+  it('turns compression on over existing localStorage data without a migration', async () => {
+    const localStorage = createMemoryStorage();
+    const storage = createLocalStorageAdapter({ storage: localStorage });
+
+    const before = new WiserRuntime({ storage });
+    const handle = await before.getDocument('note-1', Notes);
+    await handle.mutate((draft) => {
+      draft.meta.set('title', 'plain');
+    });
+
+    const after = new WiserRuntime({
+      storage,
+      codec: createCompressionCodec({ threshold: 0 }),
+    });
+    const reopened = await after.getDocument('note-1', Notes);
+    expect(reopened.data.meta.get('title')).toBe('plain');
+
+    await reopened.mutate((draft) => {
+      draft.meta.set('body', 'compressed '.repeat(50));
+    });
+    await vi.waitFor(async () => {
+      const updates = (await storage.getUpdates!('note-1')) ?? [];
+      expect(updates.some((update) => update[0] === 0xfe)).toBe(true);
+    });
+
+    const third = new WiserRuntime({
+      storage,
+      codec: createCompressionCodec({ threshold: 0 }),
+    });
+    const reloaded = await third.getDocument('note-1', Notes);
+    expect(reloaded.data.meta.toJSON()).toEqual({
+      title: 'plain',
+      body: 'compressed '.repeat(50),
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { promises as fs } from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { Wiser } from '../src/wiser';
+import { WiserRuntime } from '../src/runtime/runtime';
+import { createFileSystemStorageAdapter } from '../src/storage/fileSystemStorageAdapter';
+
+const Counter = Wiser.define('Counter', (y) => ({
+  stats: y.map<number>(),
+}));
+
+describe('createFileSystemStorageAdapter', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'sync-wiser-fs-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('returns null for unknown docs', async () => {
+    const adapter = createFileSystemStorageAdapter({ directory });
+    expect(await adapter.getSnapshot!('missing')).toBeNull();
+    expect(await adapter.getUpdates('missing')).toBeNull();
+    expect(await adapter.get('missing')).toBeNull();
+  });
+
+  it('persists snapshots, updates, pending markers and generations', async () => {
+    const adapter = createFileSystemStorageAdapter({ directory });
+
+    await adapter.appendUpdate('lists/1', Uint8Array.from([1, 2]));
+    await adapter.setSnapshot!('lists/1', Uint8Array.from([9]));
+    await adapter.appendUpdate('lists/1', Uint8Array.from([3]));
+    await adapter.markPendingSync!('lists/1', [Uint8Array.from([3])]);
+    await adapter.markSnapshotSynced!('lists/1', 1);
+
+    const reopened = createFileSystemStorageAdapter({ directory });
+    expect(await reopened.get('lists/1')).toEqual({
+      snapshot: Uint8Array.from([9]),
+      updates: [Uint8Array.from([1, 2]), Uint8Array.from([3])],
+      pendingSync: [Uint8Array.from([3])],
+      snapshotGeneration: 1,
+      syncedSnapshotGeneration: 1,
+    });
+
+    await reopened.clearPendingSync!('lists/1');
+    expect(await reopened.getPendingSync!('lists/1')).toEqual([]);
+  });
+
+  it('replaces snapshots atomically without leaving temp files behind', async () => {
+    const adapter = createFileSystemStorageAdapter({ directory });
+
+    await adapter.setSnapshot!('doc', Uint8Array.from([1]));
+    await adapter.setSnapshot!('doc', Uint8Array.from([2]));
+
+    const entries = await fs.readdir(directory);
+    expect(entries.some((entry) => entry.endsWith('.tmp'))).toBe(false);
+    expect((await adapter.getSnapshot!('doc'))?.snapshot).toEqual(
+      Uint8Array.from([2])
+    );
+  });
+
+  it('discards a torn final log record and keeps appending', async () => {
+    const adapter = createFileSystemStorageAdapter({ directory });
+    await adapter.appendUpdate('doc-torn', Uint8Array.from([1]));
+    await adapter.appendUpdate('doc-torn', Uint8Array.from([2]));
+
+    const logFile = path.join(directory, 'doc-torn.log');
+    const { size } = await fs.stat(logFile);
+    // Simulate a crash halfway through writing a 4-byte record.
+    await fs.appendFile(logFile, Uint8Array.from([0, 0, 0, 4, 0, 0, 0, 0, 7]));
+
+    const recovered = createFileSystemStorageAdapter({ directory });
+    expect(await recovered.getUpdates('doc-torn')).toEqual([
+      Uint8Array.from([1]),
+      Uint8Array.from([2]),
+    ]);
+    expect((await fs.stat(logFile)).size).toBe(size);
+
+    await recovered.appendUpdate('doc-torn', Uint8Array.from([3]));
+    expect(await recovered.getUpdates('doc-torn')).toEqual([
+      Uint8Array.from([1]),
+      Uint8Array.from([2]),
+      Uint8Array.from([3]),
+    ]);
+  });
+
+  it('compacts the log and removes every file for a doc', async () => {
+    const adapter = createFileSystemStorageAdapter({ directory });
+    await adapter.appendUpdate('doc-compact', Uint8Array.from([1]));
+    await adapter.setSnapshot!('doc-compact', Uint8Array.from([9]));
+    await adapter.appendUpdate('doc-compact', Uint8Array.from([2]));
+
+    await adapter.compact!('doc-compact', 1);
+    expect(await adapter.getUpdates('doc-compact')).toEqual([
+      Uint8Array.from([2]),
+    ]);
+
+    await adapter.remove('doc-compact');
+    expect(await adapter.get('doc-compact')).toBeNull();
+    expect(await fs.readdir(directory)).toEqual([]);
+  });
+
+  it('stores the snapshot generation in the same file as the snapshot', async () => {
+    const adapter = createFileSystemStorageAdapter({ directory });
+    await adapter.setSnapshot!('doc', Uint8Array.from([1]));
+    await adapter.markSnapshotSynced!('doc', 1);
+    await adapter.setSnapshot!('doc', Uint8Array.from([2]));
+    // The metadata file still describes the first snapshot.
+    expect(
+      JSON.parse(await fs.readFile(path.join(directory, 'doc.meta.json'), 'utf8'))
+    ).toEqual({ snapshotGeneration: 1, syncedSnapshotGeneration: 1 });
+
+    const reopened = createFileSystemStorageAdapter({ directory });
+    expect(await reopened.getSnapshot!('doc')).toEqual({
+      snapshot: Uint8Array.from([2]),
+      snapshotGeneration: 2,
+      syncedSnapshotGeneration: 1,
+    });
+    await reopened.appendUpdate('doc', Uint8Array.from([3]));
+    await reopened.compact!('doc', 2);
+    expect(await reopened.getUpdates('doc')).toEqual([Uint8Array.from([3])]);
+  });
+
+  it('hydrates runtime documents across processes', async () => {
+    const storage = createFileSystemStorageAdapter({ directory });
+    const handle = await new WiserRuntime({ storage }).getDocument(
+      'doc-runtime',
+      Counter
+    );
+    await handle.mutate((draft) => {
+      draft.stats.set('count', 6);
+    });
+    for (let i = 0; i < 50; i++) {
+      if (((await storage.getUpdates('doc-runtime')) ?? []).length >= 2) break;
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+
+    const reloaded = await new WiserRuntime({
+      storage: createFileSystemStorageAdapter({ directory }),
+    }).getDocument('doc-runtime', Counter);
+    expect(reloaded.data.stats.get('count')).toBe(6);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { Wiser } from '../src/wiser';
+import { WiserRuntime } from '../src/runtime/runtime';
+import { createIndexedDbStorageAdapter } from '../src/storage/indexedDbStorageAdapter';
+
+const Counter = Wiser.define('Counter', (y) => ({
+  stats: y.map<number>(),
+}));
+
+describe('createIndexedDbStorageAdapter', () => {
+  it('returns null for unknown docs', async () => {
+    const adapter = createIndexedDbStorageAdapter({
+      indexedDB: new IDBFactory(),
+    });
+
+    expect(await adapter.getSnapshot!('missing')).toBeNull();
+    expect(await adapter.getUpdates('missing')).toBeNull();
+    expect(await adapter.getPendingSync!('missing')).toBeNull();
+    expect(await adapter.get('missing')).toBeNull();
+  });
+
+  it('stores binary snapshots, updates, and pending markers per doc', async () => {
+    const adapter = createIndexedDbStorageAdapter({
+      indexedDB: new IDBFactory(),
+    });
+    const update = Uint8Array.from([10, 11]);
+
+    await adapter.appendUpdate('doc-1', update);
+    await adapter.appendUpdate('doc-1', Uint8Array.from([20]));
+    await adapter.appendUpdate('doc-2', Uint8Array.from([30]));
+    await adapter.setSnapshot!('doc-1', Uint8Array.from([1, 2, 3]));
+    await adapter.markPendingSync!('doc-1', [Uint8Array.from([20])]);
+    update[0] = 99;
+
+    expect(await adapter.get('doc-1')).toEqual({
+      snapshot: Uint8Array.from([1, 2, 3]),
+      updates: [Uint8Array.from([10, 11]), Uint8Array.from([20])],
+      pendingSync: [Uint8Array.from([20])],
+      snapshotGeneration: 1,
+      syncedSnapshotGeneration: 0,
+    });
+    expect(await adapter.getUpdates('doc-2')).toEqual([Uint8Array.from([30])]);
+
+    await adapter.clearPendingSync!('doc-1');
+    expect(await adapter.getPendingSync!('doc-1')).toEqual([]);
+  });
+
+  it('tracks snapshot generations and synced markers', async () => {
+    const adapter = createIndexedDbStorageAdapter({
+      indexedDB: new IDBFactory(),
+    });
+
+    await adapter.setSnapshot!('doc-gen', Uint8Array.from([1]));
+    await adapter.markSnapshotSynced!('doc-gen', 1);
+    await adapter.setSnapshot!('doc-gen', Uint8Array.from([2]));
+
+    expect(await adapter.getSnapshot!('doc-gen')).toEqual({
+      snapshot: Uint8Array.from([2]),
+      snapshotGeneration: 2,
+      syncedSnapshotGeneration: 1,
+    });
+  });
+
+  it('compacts updates covered by a snapshot and removes docs', async () => {
+    const adapter = createIndexedDbStorageAdapter({
+      indexedDB: new IDBFactory(),
+    });
+
+    await adapter.appendUpdate('doc-compact', Uint8Array.from([1]));
+    await adapter.setSnapshot!('doc-compact', Uint8Array.from([9]));
+    await adapter.appendUpdate('doc-compact', Uint8Array.from([2]));
+    await adapter.compact!('doc-compact', 1);
+
+    expect(await adapter.getUpdates('doc-compact')).toEqual([
+      Uint8Array.from([2]),
+    ]);
+
+    await adapter.remove('doc-compact');
+    expect(await adapter.get('doc-compact')).toBeNull();
+  });
+
+  it('reopens existing databases and yields to version changes', async () => {
+    const indexedDB = new IDBFactory();
+    const first = createIndexedDbStorageAdapter({
+      indexedDB,
+      databaseName: 'wiser-reopen',
+    });
+    await first.appendUpdate('doc-reopen', Uint8Array.from([5]));
+
+    const second = createIndexedDbStorageAdapter({
+      indexedDB,
+      databaseName: 'wiser-reopen',
+    });
+    expect(await second.getUpdates('doc-reopen')).toEqual([
+      Uint8Array.from([5]),
+    ]);
+
+    await new Promise<void>((resolve, reject) => {
+      const request = indexedDB.deleteDatabase('wiser-reopen');
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('delete blocked'));
+    });
+    expect(await first.getUpdates('doc-reopen')).toBeNull();
+  });
+
+  it('hydrates runtime documents across sessions', async () => {
+    const indexedDB = new IDBFactory();
+    const storage = createIndexedDbStorageAdapter({ indexedDB });
+    const handle = await new WiserRuntime({ storage }).getDocument(
+      'doc-runtime',
+      Counter
+    );
+    await handle.mutate((draft) => {
+      draft.stats.set('count', 8);
+    });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    const reloaded = await new WiserRuntime({
+      storage: createIndexedDbStorageAdapter({ indexedDB }),
+    }).getDocument('doc-runtime', Counter);
+    expect(reloaded.data.stats.get('count')).toBe(8);
+  });
+});
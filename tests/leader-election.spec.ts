@@ -0,0 +1,107 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createLeaderElection } from '../src/runtime/leaderElection';
+import type { LeaderElection } from '../src/types';
+
+// Exclusive locks granted in request order, released when the callback settles.
+const createFakeLocks = () => {
+  const queues = new Map<
+    string,
+    Array<{ signal?: AbortSignal; grant: () => Promise<void> }>
+  >();
+  const held = new Set<string>();
+
+  const next = (name: string) => {
+    if (held.has(name)) return;
+    const queue = queues.get(name) ?? [];
+    const waiter = queue.shift();
+    if (!waiter) return;
+    held.add(name);
+    waiter.grant().finally(() => {
+      held.delete(name);
+      next(name);
+    });
+  };
+
+  return {
+    request(
+      name: string,
+      options: { signal?: AbortSignal },
+      callback: (lock: unknown) => Promise<void>
+    ) {
+      return new Promise<void>((resolve, reject) => {
+        const waiter = {
+          signal: options.signal,
+          grant: () => callback({ name }).then(resolve, reject),
+        };
+        options.signal?.addEventListener('abort', () => {
+          const queue = queues.get(name) ?? [];
+          if (queue.includes(waiter)) {
+            queue.splice(queue.indexOf(waiter), 1);
+            reject(new DOMException('Aborted', 'AbortError'));
+          }
+        });
+        queues.set(name, [...(queues.get(name) ?? []), waiter]);
+        queueMicrotask(() => next(name));
+      });
+    },
+  };
+};
+
+describe('createLeaderElection', () => {
+  const elections: LeaderElection[] = [];
+
+  afterEach(() => {
+    for (const election of elections.splice(0)) {
+      election.dispose();
+    }
+  });
+
+  it('hands the Web Lock to the next tab when the leader leaves', async () => {
+    const locks = createFakeLocks();
+    const first = createLeaderElection({ name: 'locks', locks });
+    const second = createLeaderElection({ name: 'locks', locks });
+    elections.push(first, second);
+    const changes: boolean[] = [];
+    second.subscribe((isLeader) => changes.push(isLeader));
+
+    await vi.waitFor(() => {
+      expect(first.isLeader()).toBe(true);
+    });
+    expect(second.isLeader()).toBe(false);
+
+    first.dispose();
+
+    await vi.waitFor(() => {
+      expect(second.isLeader()).toBe(true);
+    });
+    expect(first.isLeader()).toBe(false);
+    expect(changes).toEqual([true]);
+  });
+
+  it('falls back to BroadcastChannel heartbeats without Web Locks', async () => {
+    const options = {
+      name: 'heartbeats',
+      locks: null,
+      heartbeatInterval: 20,
+      leaderTimeout: 60,
+    };
+    const first = createLeaderElection(options);
+    const second = createLeaderElection(options);
+    elections.push(first, second);
+
+    await vi.waitFor(() => {
+      expect([first.isLeader(), second.isLeader()].filter(Boolean)).toHaveLength(1);
+    });
+    const [leader, follower] = first.isLeader() ? [first, second] : [second, first];
+
+    // The follower keeps waiting while heartbeats arrive.
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(follower.isLeader()).toBe(false);
+
+    leader.dispose();
+
+    await vi.waitFor(() => {
+      expect(follower.isLeader()).toBe(true);
+    });
+  });
+});
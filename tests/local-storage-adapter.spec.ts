@@ -117,6 +117,41 @@ describe('createLocalStorageAdapter', () => {
     ]);
   });
 
+  it('compacts updates covered by a snapshot generation', async () => {
+    const adapter = createLocalStorageAdapter({ storage });
+    await adapter.appendUpdate('doc-compact', Uint8Array.from([1]));
+    await adapter.setSnapshot!('doc-compact', Uint8Array.from([9]));
+    await adapter.appendUpdate('doc-compact', Uint8Array.from([2]));
+
+    await adapter.compact!('doc-compact', 1);
+
+    expect(await adapter.getUpdates('doc-compact')).toEqual([
+      Uint8Array.from([2]),
+    ]);
+  });
+
+  it('treats updates persisted before generation tracking as compactable', async () => {
+    storage.setItem(
+      'sync-wiser::doc-legacy',
+      JSON.stringify({
+        snapshot: Buffer.from([9]).toString('base64'),
+        snapshotGeneration: 1,
+        updates: [
+          Buffer.from([1]).toString('base64'),
+          Buffer.from([2]).toString('base64'),
+        ],
+      })
+    );
+    const adapter = createLocalStorageAdapter({ storage });
+    await adapter.appendUpdate('doc-legacy', Uint8Array.from([3]));
+
+    await adapter.compact!('doc-legacy', 1);
+
+    expect(await adapter.getUpdates('doc-legacy')).toEqual([
+      Uint8Array.from([3]),
+    ]);
+  });
+
   it('removes docs from storage', async () => {
     const adapter = createLocalStorageAdapter({ storage });
     if (!adapter.setSnapshot) {
@@ -131,6 +166,28 @@ describe('createLocalStorageAdapter', () => {
     expect(stored).toBeNull();
   });
 
+  it('stores sync cursors with the doc and clears them on remove', async () => {
+    const adapter = createLocalStorageAdapter({ storage });
+    if (!adapter.getSyncCursor || !adapter.setSyncCursor) {
+      throw new Error('Expected sync cursor methods to be implemented for tests');
+    }
+    await adapter.appendUpdate('doc-cursor', Uint8Array.from([1]));
+    await adapter.setSyncCursor('doc-cursor', 'rest:a', 'cursor-1');
+
+    const reopened = createLocalStorageAdapter({ storage });
+    await expect(
+      reopened.getSyncCursor!('doc-cursor', 'rest:a')
+    ).resolves.toBe('cursor-1');
+    expect(await reopened.getUpdates('doc-cursor')).toEqual([
+      Uint8Array.from([1]),
+    ]);
+
+    await adapter.remove('doc-cursor');
+    await expect(
+      adapter.getSyncCursor('doc-cursor', 'rest:a')
+    ).resolves.toBeNull();
+  });
+
   it('uses namespace isolation', async () => {
     const docId = 'shared';
     const adapterA = createLocalStorageAdapter({
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { act, render, screen, waitFor } from '@testing-library/react';
+import * as React from 'react';
+import { Awareness, encodeAwarenessUpdate } from 'y-protocols/awareness';
+import * as Y from 'yjs';
+import { Wiser } from '../src/wiser';
+import { WiserProvider } from '../src/react/WiserProvider';
+import { useWiserDoc } from '../src/react/useWiserDoc';
+import { useWiserPresence } from '../src/react/useWiserPresence';
+import { createInMemoryStorageAdapter } from '../src/storage/inMemoryStorageAdapter';
+import type { RealtimeAdapter } from '../src/types';
+
+const Counter = Wiser.define('Counter', (y) => ({
+  stats: y.map<number>(),
+}));
+
+function PresenceProbe() {
+  useWiserDoc('presence-doc', Counter);
+  const { peers, localState, setLocalState } = useWiserPresence<{ name: string }>(
+    'presence-doc'
+  );
+
+  React.useEffect(() => {
+    setLocalState({ name: 'me' });
+  }, [setLocalState]);
+
+  return (
+    <div
+      data-testid="presence"
+      data-state={JSON.stringify({
+        local: localState?.name ?? null,
+        peers: peers.map((peer) => peer.state.name),
+      })}
+    />
+  );
+}
+
+describe('useWiserPresence', () => {
+  it('tracks the local state and the live peer list', async () => {
+    let deliver: (update: Uint8Array) => void = () => undefined;
+    const realtime: RealtimeAdapter = {
+      subscribe: () => () => undefined,
+      publish: async () => undefined,
+      subscribeAwareness: (_docId, onUpdate) => {
+        deliver = onUpdate;
+        return () => undefined;
+      },
+      publishAwareness: async () => undefined,
+    };
+
+    render(
+      <WiserProvider config={{ storage: createInMemoryStorageAdapter(), realtime }}>
+        <PresenceProbe />
+      </WiserProvider>
+    );
+
+    const node = await screen.findByTestId('presence');
+    const readState = () => JSON.parse(node.getAttribute('data-state') ?? '{}');
+
+    await waitFor(() => {
+      expect(readState()).toEqual({ local: 'me', peers: [] });
+    });
+
+    const remote = new Awareness(new Y.Doc());
+    remote.setLocalState({ name: 'peer' });
+    act(() => {
+      deliver(encodeAwarenessUpdate(remote, [remote.clientID]));
+    });
+    await waitFor(() => {
+      expect(readState().peers).toEqual(['peer']);
+    });
+
+    remote.setLocalState(null);
+    act(() => {
+      deliver(encodeAwarenessUpdate(remote, [remote.clientID]));
+    });
+    await waitFor(() => {
+      expect(readState().peers).toEqual([]);
+    });
+    remote.destroy();
+  });
+});
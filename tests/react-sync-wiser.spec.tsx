@@ -1,10 +1,11 @@
 import { describe, expect, it, vi } from 'vitest';
-import { render, screen, waitFor } from '@testing-library/react';
+import { act, render, screen, waitFor } from '@testing-library/react';
 import * as React from 'react';
 import { Wiser } from '../src/wiser';
 import { WiserProvider } from '../src/react/WiserProvider';
 import { useSyncWiser } from '../src/react/useSyncWiser';
 import { createInMemoryStorageAdapter } from '../src/storage/inMemoryStorageAdapter';
+import type { RealtimeConnectionState } from '../src/types';
 
 const Counter = Wiser.define('Counter', (y) => ({
   stats: y.map<number>(),
@@ -32,6 +33,11 @@ function SyncProbe() {
   );
 }
 
+function StatusProbe() {
+  const { realtimeStatus } = useSyncWiser('react-status-doc', Counter);
+  return <div data-testid="realtime-status">{String(realtimeStatus)}</div>;
+}
+
 describe('useSyncWiser', () => {
   it('combines document access with sync controls', async () => {
     const storage = createInMemoryStorageAdapter();
@@ -63,4 +69,36 @@ describe('useSyncWiser', () => {
     // initial load + manual sync
     expect(pullMock).toHaveBeenCalledTimes(2);
   });
+
+  it('reports the realtime connection state', async () => {
+    const listeners = new Set<(state: RealtimeConnectionState) => void>();
+    const config = {
+      storage: createInMemoryStorageAdapter(),
+      realtime: {
+        subscribe: () => () => undefined,
+        publish: async () => undefined,
+        onStatusChange(listener: (state: RealtimeConnectionState) => void) {
+          listeners.add(listener);
+          listener('connecting');
+          return () => {
+            listeners.delete(listener);
+          };
+        },
+      },
+    };
+
+    render(
+      <WiserProvider config={config}>
+        <StatusProbe />
+      </WiserProvider>
+    );
+
+    const statusNode = await screen.findByTestId('realtime-status');
+    expect(statusNode.textContent).toBe('connecting');
+
+    act(() => {
+      for (const listener of listeners) listener('reconnecting');
+    });
+    expect(statusNode.textContent).toBe('reconnecting');
+  });
 });
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { act, render, screen, waitFor } from '@testing-library/react';
+import * as React from 'react';
+import { Wiser } from '../src/wiser';
+import { WiserProvider } from '../src/react/WiserProvider';
+import { useWiserDoc } from '../src/react/useWiserDoc';
+import { useWiserUndo } from '../src/react/useWiserUndo';
+import { createInMemoryStorageAdapter } from '../src/storage/inMemoryStorageAdapter';
+
+const Counter = Wiser.define(
+  'Counter',
+  (y) => ({
+    stats: y.map<number>(),
+  }),
+  { undo: { captureTimeout: 0 } }
+);
+
+let controls: {
+  increment: () => Promise<void>;
+  undo: () => void;
+  redo: () => void;
+} | null = null;
+
+function UndoProbe() {
+  const { data, mutate } = useWiserDoc('undo-doc', Counter);
+  const { undo, redo, canUndo, canRedo } = useWiserUndo('undo-doc');
+
+  controls = {
+    increment: () =>
+      mutate((draft) => {
+        draft.stats.set('count', (draft.stats.get('count') ?? 0) + 1);
+      }),
+    undo,
+    redo,
+  };
+
+  return (
+    <div
+      data-testid="undo"
+      data-state={JSON.stringify({
+        ready: !!data,
+        count: data?.stats.get('count') ?? 0,
+        canUndo,
+        canRedo,
+      })}
+    />
+  );
+}
+
+describe('useWiserUndo', () => {
+  it('re-renders as the undo and redo stacks change', async () => {
+    render(
+      <WiserProvider config={{ storage: createInMemoryStorageAdapter() }}>
+        <UndoProbe />
+      </WiserProvider>
+    );
+
+    const node = await screen.findByTestId('undo');
+    const readState = () => JSON.parse(node.getAttribute('data-state') ?? '{}');
+
+    await waitFor(() => {
+      expect(readState()).toEqual({
+        ready: true,
+        count: 0,
+        canUndo: false,
+        canRedo: false,
+      });
+    });
+
+    await act(async () => {
+      await controls!.increment();
+    });
+    await waitFor(() => {
+      expect(readState()).toMatchObject({ count: 1, canUndo: true, canRedo: false });
+    });
+
+    act(() => {
+      controls!.undo();
+    });
+    await waitFor(() => {
+      expect(readState()).toMatchObject({ count: 0, canUndo: false, canRedo: true });
+    });
+
+    act(() => {
+      controls!.redo();
+    });
+    await waitFor(() => {
+      expect(readState()).toMatchObject({ count: 1, canUndo: true, canRedo: false });
+    });
+  });
+});
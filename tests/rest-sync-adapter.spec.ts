@@ -165,4 +165,215 @@ describe('createRestSyncAdapter', () => {
     expect(fetchMock).toHaveBeenCalledTimes(1);
     expect(lastSynced.get('doc-3')).toBe('2024-02-03T00:00:00Z');
   });
+
+  it('pulls many documents in one request and checkpoints each of them', async () => {
+    const lastSynced = new Map<string, string | null>([
+      ['doc-b', '2024-03-01T00:00:00Z'],
+    ]);
+
+    const remoteDoc = new Y.Doc();
+    remoteDoc.getText('content').insert(0, 'from doc-a');
+    const snapshotBase64 = Buffer.from(
+      Y.encodeStateAsUpdate(remoteDoc)
+    ).toString('base64');
+
+    const fetchMock = vi.fn(
+      async (_input: URL | RequestInfo, init?: RequestInit) => {
+        const payload = JSON.parse((init?.body as string) ?? '{}');
+        expect(payload.documents).toEqual([
+          { id: 'doc-a', lastSynced: null, requestSnapshot: true },
+          {
+            id: 'doc-b',
+            lastSynced: '2024-03-01T00:00:00Z',
+            requestSnapshot: false,
+            stateVector: Buffer.from([0]).toString('base64'),
+          },
+        ]);
+
+        return new Response(
+          JSON.stringify({
+            documents: [
+              {
+                id: 'doc-a',
+                snapshot: snapshotBase64,
+                dateLastSynced: '2024-03-02T00:00:00Z',
+              },
+              { id: 'doc-b', updates: [], dateLastSynced: '2024-03-03T00:00:00Z' },
+            ],
+          }),
+          { status: 200, headers: baseHeaders }
+        );
+      }
+    );
+
+    const adapter = createRestSyncAdapter({
+      baseUrl: 'https://api.example.com/sync',
+      fetch: fetchMock,
+      getLastSynced: async (docId) => lastSynced.get(docId) ?? null,
+      setLastSynced: async (docId, value) => {
+        lastSynced.set(docId, value);
+      },
+    });
+
+    const [docA, docB] = await adapter.pullMany!([
+      { docId: 'doc-a', options: { requestSnapshot: true } },
+      { docId: 'doc-b', stateVector: new Uint8Array([0]) },
+    ]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(docB).toBeNull();
+    const doc = new Y.Doc();
+    Y.applyUpdate(doc, docA!);
+    expect(doc.getText('content').toString()).toBe('from doc-a');
+    expect(lastSynced.get('doc-a')).toBe('2024-03-02T00:00:00Z');
+    expect(lastSynced.get('doc-b')).toBe('2024-03-03T00:00:00Z');
+  });
+
+  it('coalesces pulls issued within pullBatchWindow into one request', async () => {
+    vi.useFakeTimers();
+    try {
+      const fetchMock = vi.fn(
+        async (_input: URL | RequestInfo, init?: RequestInit) => {
+          const payload = JSON.parse((init?.body as string) ?? '{}');
+          return new Response(
+            JSON.stringify({
+              documents: payload.documents.map((doc: { id: string }) => ({
+                id: doc.id,
+                updates: [],
+                dateLastSynced: null,
+              })),
+            }),
+            { status: 200, headers: baseHeaders }
+          );
+        }
+      );
+
+      const adapter = createRestSyncAdapter({
+        baseUrl: 'https://api.example.com/sync',
+        fetch: fetchMock,
+        pullBatchWindow: 10,
+      });
+
+      const pulls = Promise.all([
+        adapter.pull('doc-1'),
+        adapter.pull('doc-2'),
+        adapter.pull('doc-3'),
+      ]);
+      expect(fetchMock).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(10);
+      await expect(pulls).resolves.toEqual([null, null, null]);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      const payload = JSON.parse(
+        (fetchMock.mock.calls[0]![1]?.body as string) ?? '{}'
+      );
+      expect(payload.documents.map((doc: { id: string }) => doc.id)).toEqual([
+        'doc-1',
+        'doc-2',
+        'doc-3',
+      ]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('pushes many documents in one request and maps rejections per document', async () => {
+    const lastSynced = new Map<string, string | null>();
+    const errors: unknown[] = [];
+
+    const fetchMock = vi.fn(
+      async (input: URL | RequestInfo, init?: RequestInit) => {
+        const payload = JSON.parse((init?.body as string) ?? '{}');
+        expect(input).toBe('https://api.example.com/sync/push');
+        expect(payload.documents).toEqual([
+          {
+            id: 'doc-x',
+            update: Buffer.from([1]).toString('base64'),
+            isSnapshot: false,
+            lastSynced: null,
+          },
+          {
+            id: 'doc-y',
+            update: Buffer.from([2]).toString('base64'),
+            isSnapshot: true,
+            lastSynced: null,
+          },
+        ]);
+
+        return new Response(
+          JSON.stringify({
+            documents: [
+              { id: 'doc-x', dateLastSynced: '2024-04-01T00:00:00Z' },
+              { id: 'doc-y', error: 'document is locked' },
+            ],
+          }),
+          { status: 200, headers: baseHeaders }
+        );
+      }
+    );
+
+    const adapter = createRestSyncAdapter({
+      baseUrl: 'https://api.example.com/sync',
+      fetch: fetchMock,
+      getLastSynced: async (docId) => lastSynced.get(docId) ?? null,
+      setLastSynced: async (docId, value) => {
+        lastSynced.set(docId, value);
+      },
+      onError: (error) => errors.push(error),
+    });
+
+    const results = await adapter.pushMany!([
+      { docId: 'doc-x', update: new Uint8Array([1]) },
+      { docId: 'doc-y', update: new Uint8Array([2]), options: { isSnapshot: true } },
+    ]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(results[0]).toEqual({ docId: 'doc-x' });
+    expect(results[1]?.docId).toBe('doc-y');
+    expect(String(results[1]?.error)).toContain('document is locked');
+    expect(errors).toEqual([results[1]?.error]);
+    expect(lastSynced.get('doc-x')).toBe('2024-04-01T00:00:00Z');
+    expect(lastSynced.has('doc-y')).toBe(false);
+  });
+
+  it('reads a batched response body once for every document in it', async () => {
+    const responses: Response[] = [];
+    const fetchMock = vi.fn(
+      async (_input: URL | RequestInfo, init?: RequestInit) => {
+        const payload = JSON.parse((init?.body as string) ?? '{}');
+        const response = new Response(
+          JSON.stringify({
+            documents: payload.documents.map((doc: { id: string }) => ({
+              id: doc.id,
+              updates: [],
+              dateLastSynced: '2024-05-01T00:00:00Z',
+            })),
+          }),
+          { status: 200, headers: baseHeaders }
+        );
+        vi.spyOn(response, 'json');
+        vi.spyOn(response, 'clone');
+        responses.push(response);
+        return response;
+      }
+    );
+
+    const adapter = createRestSyncAdapter({
+      baseUrl: 'https://api.example.com/sync',
+      fetch: fetchMock,
+    });
+    const docIds = ['doc-1', 'doc-2', 'doc-3'];
+
+    await adapter.pullMany!(docIds.map((docId) => ({ docId })));
+    const results = await adapter.pushMany!(
+      docIds.map((docId) => ({ docId, update: new Uint8Array([1]) }))
+    );
+
+    expect(results).toEqual(docIds.map((docId) => ({ docId })));
+    expect(responses).toHaveLength(2);
+    for (const response of responses) {
+      expect(response.json).toHaveBeenCalledTimes(1);
+      expect(response.clone).not.toHaveBeenCalled();
+    }
+  });
 });
@@ -0,0 +1,205 @@
+import { describe, expect, it, vi } from 'vitest';
+import * as Y from 'yjs';
+import { Wiser } from '../src/wiser';
+import { WiserRuntime } from '../src/runtime/runtime';
+import { createInMemoryStorageAdapter } from '../src/storage/inMemoryStorageAdapter';
+import { createRestSyncAdapter } from '../src/sync/restAdapter';
+import { createFetchHandler, createSyncHandler } from '../src/server';
+import {
+  runRestSyncContract,
+  type RestSyncContractServer,
+} from './contracts/restSyncContract';
+
+const Counter = Wiser.define('Counter', (y) => ({
+  stats: y.map<number>(),
+}));
+
+const toBase64 = (bytes: Uint8Array) => Buffer.from(bytes).toString('base64');
+const fromBase64 = (value: string) => new Uint8Array(Buffer.from(value, 'base64'));
+
+// Timestamp-mode backend: an append-only log per document where
+// `dateLastSynced` is the position of the newest entry a client has seen.
+function createTimestampServer(): RestSyncContractServer {
+  const logs = new Map<string, Uint8Array[]>();
+  const respond = (documents: unknown[]) =>
+    new Response(JSON.stringify({ documents }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  return {
+    fetch: async (input, init) => {
+      const url = String(input);
+      const { documents } = JSON.parse(String(init?.body));
+      if (url.endsWith('/push')) {
+        return respond(
+          documents.map((doc: { id: string; update: string; lastSynced: string | null }) => {
+            const log = logs.get(doc.id) ?? [];
+            logs.set(doc.id, log);
+            log.push(fromBase64(doc.update));
+            return { id: doc.id, dateLastSynced: doc.lastSynced };
+          })
+        );
+      }
+      return respond(
+        documents.map(
+          (doc: { id: string; lastSynced: string | null; requestSnapshot: boolean }) => {
+            const log = logs.get(doc.id) ?? [];
+            const since = doc.lastSynced === null ? 0 : Number(doc.lastSynced);
+            const missing = log.slice(since);
+            const dateLastSynced = String(log.length);
+            if (doc.requestSnapshot && missing.length > 0) {
+              return {
+                id: doc.id,
+                snapshot: toBase64(Y.mergeUpdates(missing)),
+                updates: [],
+                dateLastSynced,
+              };
+            }
+            return { id: doc.id, updates: missing.map(toBase64), dateLastSynced };
+          }
+        )
+      );
+    },
+  };
+}
+
+function createStateVectorServer(): RestSyncContractServer {
+  const handle = createFetchHandler(
+    createSyncHandler({ storage: createInMemoryStorageAdapter() })
+  );
+  return {
+    fetch: async (input, init) => handle(new Request(input, init)),
+  };
+}
+
+runRestSyncContract('timestamp', createTimestampServer);
+runRestSyncContract('stateVector', createStateVectorServer);
+
+describe('createRestSyncAdapter stateVector mode', () => {
+  it('resumes after a reload with only the missing diff and no checkpoint', async () => {
+    const server = createStateVectorServer();
+    const writer = await new WiserRuntime({
+      storage: createInMemoryStorageAdapter(),
+      sync: createRestSyncAdapter({
+        baseUrl: 'https://sync.example.com',
+        mode: 'stateVector',
+        fetch: server.fetch,
+      }),
+    }).getDocument('doc', Counter);
+    await writer.mutate((draft) => {
+      for (let i = 0; i < 50; i++) draft.stats.set(`key-${i}`, i);
+    });
+    await writer.sync({ pull: false });
+
+    const storage = createInMemoryStorageAdapter();
+    const getLastSynced = vi.fn(async () => null);
+    const setLastSynced = vi.fn(async () => undefined);
+    const connect = (fetchImpl: typeof fetch) =>
+      new WiserRuntime({
+        storage,
+        sync: createRestSyncAdapter({
+          baseUrl: 'https://sync.example.com',
+          mode: 'stateVector',
+          fetch: fetchImpl,
+          getLastSynced,
+          setLastSynced,
+        }),
+      });
+    await connect(server.fetch).getDocument('doc', Counter);
+
+    await writer.mutate((draft) => {
+      draft.stats.set('late', 1);
+    });
+    await writer.sync({ pull: false });
+
+    // A fresh adapter over the same local storage stands in for a page reload.
+    const pulledBytes: number[] = [];
+    const reloaded = await connect(async (input, init) => {
+      const response = await server.fetch(input, init);
+      const body = await response.clone().json();
+      for (const doc of body.documents) {
+        for (const update of doc.updates ?? []) {
+          pulledBytes.push(fromBase64(update).byteLength);
+        }
+        expect(doc.snapshot).toBeUndefined();
+      }
+      return response;
+    }).getDocument('doc', Counter);
+
+    expect(reloaded.data.stats.get('late')).toBe(1);
+    expect(reloaded.data.stats.get('key-49')).toBe(49);
+    expect(pulledBytes).toHaveLength(1);
+    expect(pulledBytes[0]).toBeLessThan(64);
+    expect(getLastSynced).not.toHaveBeenCalled();
+    expect(setLastSynced).not.toHaveBeenCalled();
+  });
+});
+
+describe('createRestSyncAdapter timestamp cursors', () => {
+  it('keeps checkpoints in the storage adapter across reloads until remove()', async () => {
+    const server = createTimestampServer();
+    const storage = createInMemoryStorageAdapter();
+    const sentCursors: Array<string | null> = [];
+    const connect = () =>
+      new WiserRuntime({
+        storage,
+        sync: createRestSyncAdapter({
+          baseUrl: 'https://sync.example.com/',
+          fetch: async (input, init) => {
+            if (String(input).endsWith('/pull')) {
+              const { documents } = JSON.parse(String(init?.body));
+              sentCursors.push(documents[0].lastSynced);
+            }
+            return server.fetch(input, init);
+          },
+        }),
+      });
+
+    const first = await connect().getDocument('doc', Counter);
+    await first.mutate((draft) => {
+      draft.stats.set('a', 1);
+    });
+    await first.sync();
+    const cursor = await storage.getSyncCursor!(
+      'doc',
+      'rest:https://sync.example.com'
+    );
+    expect(cursor).not.toBeNull();
+
+    // A fresh runtime and adapter over the same storage stands in for a reload.
+    sentCursors.length = 0;
+    const reloaded = await connect().getDocument('doc', Counter);
+    expect(sentCursors[0]).toBe(cursor);
+
+    await reloaded.remove();
+    await expect(
+      storage.getSyncCursor!('doc', 'rest:https://sync.example.com')
+    ).resolves.toBeNull();
+  });
+
+  it('keeps checkpoints apart when runtimes share one adapter', async () => {
+    const server = createTimestampServer();
+    const sync = createRestSyncAdapter({
+      baseUrl: 'https://sync.example.com',
+      fetch: server.fetch,
+    });
+    const firstStorage = createInMemoryStorageAdapter();
+    const secondStorage = createInMemoryStorageAdapter();
+    const first = new WiserRuntime({ storage: firstStorage, sync });
+    new WiserRuntime({ storage: secondStorage, sync });
+
+    const handle = await first.getDocument('doc', Counter);
+    await handle.mutate((draft) => {
+      draft.stats.set('a', 1);
+    });
+    await handle.sync();
+
+    await expect(
+      firstStorage.getSyncCursor!('doc', 'rest:https://sync.example.com')
+    ).resolves.not.toBeNull();
+    await expect(
+      secondStorage.getSyncCursor!('doc', 'rest:https://sync.example.com')
+    ).resolves.toBeNull();
+  });
+});
@@ -1,15 +1,19 @@
 import { describe, expect, it, vi } from 'vitest';
 import * as Y from 'yjs';
+import { Awareness, encodeAwarenessUpdate } from 'y-protocols/awareness';
 import { Wiser } from '../src/wiser';
 import { createInMemoryStorageAdapter } from '../src/storage/inMemoryStorageAdapter';
 import { WiserRuntime } from '../src/runtime/runtime';
 import type { WiserSyncEvent } from '../src/runtime/runtime';
 import type {
+  CodecAdapter,
   RealtimeAdapter,
   StorageAdapter,
   SyncAdapter,
   SyncPullOptions,
+  SyncPullRequest,
   SyncPushOptions,
+  SyncPushRequest,
 } from '../src/types';
 
 const Counter = Wiser.define('Counter', (y) => ({
@@ -34,7 +38,7 @@ describe('WiserRuntime', () => {
     expect((await storage.getUpdates!('doc-1'))?.length).toBeGreaterThanOrEqual(1);
   });
 
-  it('captures snapshots when thresholds are reached without clearing updates', async () => {
+  it('captures snapshots when thresholds are reached and compacts covered updates', async () => {
     const storage = createInMemoryStorageAdapter();
     const runtime = new WiserRuntime({
       storage,
@@ -50,7 +54,45 @@ describe('WiserRuntime', () => {
     const storedSnapshot = await storage.getSnapshot!('doc-2');
     expect(storedSnapshot).not.toBeNull();
     expect(storedSnapshot?.snapshot).not.toBeNull();
-    expect((await storage.getUpdates!('doc-2'))?.length).toBeGreaterThanOrEqual(1);
+    expect(await storage.getUpdates!('doc-2')).toEqual([]);
+
+    const reloaded = await new WiserRuntime({ storage }).getDocument(
+      'doc-2',
+      Counter
+    );
+    expect(reloaded.data.stats.get('count')).toBe(42);
+  });
+
+  it('keeps the update log when the storage adapter cannot compact', async () => {
+    const storage = createInMemoryStorageAdapter();
+    delete storage.compact;
+    const runtime = new WiserRuntime({
+      storage,
+      policies: { snapshotEvery: { updates: 1 } },
+    });
+
+    const handle = await runtime.getDocument('doc-2b', Counter);
+    await handle.mutate((draft) => {
+      draft.stats.set('count', 42);
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect((await storage.getUpdates('doc-2b'))?.length).toBeGreaterThanOrEqual(1);
+  });
+
+  it('applies the gc policy to managed docs', async () => {
+    const storage = createInMemoryStorageAdapter();
+    const defaults = await new WiserRuntime({ storage }).getDocument(
+      'doc-gc-default',
+      Counter
+    );
+    const collected = await new WiserRuntime({
+      storage,
+      policies: { gc: true },
+    }).getDocument('doc-gc-enabled', Counter);
+
+    expect(defaults.doc.gc).toBe(false);
+    expect(collected.doc.gc).toBe(true);
   });
 
   it('removes documents from storage', async () => {
@@ -111,7 +153,10 @@ describe('WiserRuntime', () => {
     }
 
     const docJSON = handle.doc.toJSON();
-    expect(docJSON).toEqual({ __wiser_root__: { stats: { count: 5 } } });
+    expect(docJSON).toEqual({
+      __wiser_meta__: { version: 1 },
+      __wiser_root__: { stats: { count: 5 } },
+    });
 
     const stored = await storage.getSnapshot!('doc-sync');
     expect(stored).not.toBeNull();
@@ -581,4 +626,675 @@ describe('WiserRuntime', () => {
     });
     expect(pushMock.mock.calls.length).toBeGreaterThan(initialPushes);
   });
+  it('evicts least recently used documents beyond cache.maxDocs', async () => {
+    const storage = createInMemoryStorageAdapter();
+    const unsubscribes = new Map<string, ReturnType<typeof vi.fn>>();
+    const realtime: RealtimeAdapter = {
+      subscribe: vi.fn((docId: string) => {
+        const unsubscribe = vi.fn();
+        unsubscribes.set(docId, unsubscribe);
+        return unsubscribe;
+      }),
+      publish: vi.fn(async () => undefined),
+    };
+    const runtime = new WiserRuntime({
+      storage,
+      realtime,
+      cache: { maxDocs: 2 },
+    });
+
+    const first = await runtime.getDocument('doc-lru-a', Counter);
+    await first.mutate((draft) => {
+      draft.stats.set('count', 1);
+    });
+    await runtime.getDocument('doc-lru-b', Counter);
+    await runtime.getDocument('doc-lru-c', Counter);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(unsubscribes.get('doc-lru-a')).toHaveBeenCalledTimes(1);
+    expect(unsubscribes.get('doc-lru-b')).not.toHaveBeenCalled();
+    await expect(
+      first.mutate((draft) => {
+        draft.stats.set('count', 2);
+      })
+    ).rejects.toThrow(/evicted/);
+
+    const rehydrated = await runtime.getDocument('doc-lru-a', Counter);
+    expect(rehydrated.doc).not.toBe(first.doc);
+    expect(rehydrated.data.stats.get('count')).toBe(1);
+    expect(unsubscribes.get('doc-lru-b')).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps pinned documents hydrated and flushes queued pushes before eviction', async () => {
+    const storage = createInMemoryStorageAdapter();
+    let releasePush: () => void = () => undefined;
+    const pushGate = new Promise<void>((resolve) => {
+      releasePush = resolve;
+    });
+    const pushMock = vi.fn(async () => {
+      await pushGate;
+    });
+    const runtime = new WiserRuntime({
+      storage,
+      sync: { pull: vi.fn(async () => null), push: pushMock },
+      cache: { maxDocs: 1 },
+    });
+
+    const pinned = await runtime.getDocument('doc-pinned', Counter);
+    const release = pinned.pin();
+    const other = await runtime.getDocument('doc-unpinned', Counter);
+    await other.mutate((draft) => {
+      draft.stats.set('count', 3);
+    });
+
+    await runtime.getDocument('doc-third', Counter);
+    await pinned.mutate((draft) => {
+      draft.stats.set('count', 1);
+    });
+    await expect(
+      other.mutate((draft) => {
+        draft.stats.set('count', 4);
+      })
+    ).rejects.toThrow(/evicted/);
+
+    const reload = runtime.getDocument('doc-unpinned', Counter);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(await storage.getPendingSync!('doc-unpinned')).toHaveLength(1);
+
+    releasePush();
+    const reloaded = await reload;
+    expect(reloaded.data.stats.get('count')).toBe(3);
+    expect(await storage.getPendingSync!('doc-unpinned')).toHaveLength(0);
+
+    release();
+  });
+
+  it('shares presence through realtime awareness and announces departures', async () => {
+    const peers = new Map<string, Set<(update: Uint8Array) => void>>();
+    const createHub = (): RealtimeAdapter => {
+      const own = new Set<(update: Uint8Array) => void>();
+      return {
+        subscribe: () => () => undefined,
+        publish: async () => undefined,
+        subscribeAwareness: (docId, onUpdate) => {
+          const listeners = peers.get(docId) ?? new Set();
+          peers.set(docId, listeners);
+          listeners.add(onUpdate);
+          own.add(onUpdate);
+          return () => listeners.delete(onUpdate);
+        },
+        publishAwareness: async (docId, update) => {
+          for (const listener of peers.get(docId) ?? []) {
+            if (!own.has(listener)) listener(update);
+          }
+        },
+      };
+    };
+
+    const alice = new WiserRuntime({
+      storage: createInMemoryStorageAdapter(),
+      realtime: createHub(),
+    });
+    const bob = new WiserRuntime({
+      storage: createInMemoryStorageAdapter(),
+      realtime: createHub(),
+    });
+
+    const aliceDoc = await alice.getDocument('doc-presence', Counter);
+    aliceDoc.awareness.setLocalState({ name: 'alice' });
+    const bobDoc = await bob.getDocument('doc-presence', Counter);
+    expect(bob.getAwareness('doc-presence')).toBe(bobDoc.awareness);
+
+    // Alice learns about Bob from his first update and answers with her state.
+    bobDoc.awareness.setLocalState({ name: 'bob' });
+    expect(aliceDoc.awareness.getStates().get(bobDoc.awareness.clientID)).toEqual({
+      name: 'bob',
+    });
+    expect(bobDoc.awareness.getStates().get(aliceDoc.awareness.clientID)).toEqual({
+      name: 'alice',
+    });
+
+    await aliceDoc.remove();
+    expect(bobDoc.awareness.getStates().has(aliceDoc.awareness.clientID)).toBe(false);
+    expect(alice.getAwareness('doc-presence')).toBeNull();
+  });
+
+  it('expires presence of peers that stop refreshing', async () => {
+    vi.useFakeTimers();
+    try {
+      let deliver: (update: Uint8Array) => void = () => undefined;
+      const runtime = new WiserRuntime({
+        storage: createInMemoryStorageAdapter(),
+        realtime: {
+          subscribe: () => () => undefined,
+          publish: async () => undefined,
+          subscribeAwareness: (_docId, onUpdate) => {
+            deliver = onUpdate;
+            return () => undefined;
+          },
+          publishAwareness: async () => undefined,
+        },
+      });
+      const handle = await runtime.getDocument('doc-presence-expiry', Counter);
+
+      const remote = new Awareness(new Y.Doc());
+      remote.setLocalState({ name: 'ghost' });
+      deliver(encodeAwarenessUpdate(remote, [remote.clientID]));
+      remote.destroy();
+      expect(handle.awareness.getStates().has(remote.clientID)).toBe(true);
+
+      // lib0 reads the clock through a captured Date.now, so age the entry directly.
+      handle.awareness.meta.get(remote.clientID)!.lastUpdated -= 31_000;
+      vi.advanceTimersByTime(3_000);
+      expect(handle.awareness.getStates().has(remote.clientID)).toBe(false);
+      await handle.remove();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('persists migrations of stored docs and queues them for sync', async () => {
+    const storage = createInMemoryStorageAdapter();
+    const legacy = new Y.Doc();
+    legacy.getMap<unknown>('__wiser_root__').set('stats', new Y.Map<number>());
+    await storage.appendUpdate('doc-migrate', Y.encodeStateAsUpdate(legacy));
+
+    const CounterV2 = Wiser.define(
+      'Counter',
+      (y) => ({ stats: y.map<number>() }),
+      {
+        version: 2,
+        migrations: {
+          2: ({ root }) => {
+            (root.get('stats') as Y.Map<number>).set('count', 0);
+          },
+        },
+      }
+    );
+    const pushMock = vi.fn(async () => undefined);
+    const runtime = new WiserRuntime({
+      storage,
+      sync: { pull: vi.fn(async () => null), push: pushMock },
+    });
+
+    const handle = await runtime.getDocument('doc-migrate', CounterV2);
+    expect(handle.data.stats.get('count')).toBe(0);
+    await handle.sync({ pull: false });
+
+    expect(pushMock).toHaveBeenCalled();
+    const pushed = new Y.Doc();
+    for (const [, update] of pushMock.mock.calls as unknown as Array<[string, Uint8Array]>) {
+      Y.applyUpdate(pushed, update);
+    }
+    expect(pushed.getMap('__wiser_meta__').get('version')).toBe(2);
+    expect(await storage.getPendingSync!('doc-migrate')).toHaveLength(0);
+  });
+
+  it('undoes local mutations without touching remote changes', async () => {
+    let deliver: (update: Uint8Array) => void = () => undefined;
+    const runtime = new WiserRuntime({
+      storage: createInMemoryStorageAdapter(),
+      realtime: {
+        subscribe: (_docId, onUpdate) => {
+          deliver = onUpdate;
+          return () => undefined;
+        },
+        publish: async () => undefined,
+      },
+    });
+    const handle = await runtime.getDocument('doc-undo', Counter);
+    expect(handle.canUndo()).toBe(false);
+
+    const stackChanges = vi.fn();
+    handle.onUndoStackChange(stackChanges);
+
+    await handle.mutate((draft) => {
+      draft.stats.set('count', 1);
+    });
+    await handle.mutate(
+      (draft) => {
+        draft.stats.set('other', 2);
+      },
+      { origin: 'toolbar' }
+    );
+
+    const remote = new Y.Doc();
+    Y.applyUpdate(remote, Y.encodeStateAsUpdate(handle.doc));
+    (remote.getMap('__wiser_root__').get('stats') as Y.Map<unknown>).set('remote', true);
+    deliver(Y.encodeStateAsUpdate(remote, Y.encodeStateVector(handle.doc)));
+
+    expect(handle.canUndo()).toBe(true);
+    handle.undo();
+    expect(handle.data.stats.get('count')).toBeUndefined();
+    expect(handle.data.stats.get('other')).toBeUndefined();
+    expect(handle.data.stats.get('remote')).toBe(true);
+    expect(handle.canUndo()).toBe(false);
+    expect(stackChanges).toHaveBeenCalled();
+
+    handle.redo();
+    expect(handle.data.stats.get('count')).toBe(1);
+    expect(handle.canRedo()).toBe(false);
+  });
+
+  it('scopes undo to the model keys and capture timeout it configures', async () => {
+    const Editor = Wiser.define(
+      'Editor',
+      (y) => ({ body: y.text(), meta: y.map<string>() }),
+      { undo: { keys: ['body'], captureTimeout: 0 } }
+    );
+    const runtime = new WiserRuntime({ storage: createInMemoryStorageAdapter() });
+    const handle = await runtime.getDocument('doc-undo-scope', Editor);
+
+    await handle.mutate((draft) => {
+      draft.body.insert(0, 'Hello');
+    });
+    await handle.mutate((draft) => {
+      draft.body.insert(5, ' world');
+    });
+    await handle.mutate((draft) => {
+      draft.meta.set('author', 'ada');
+    });
+
+    handle.undo();
+    expect(handle.data.body.toString()).toBe('Hello');
+    expect(handle.data.meta.get('author')).toBe('ada');
+    handle.undo();
+    expect(handle.data.body.toString()).toBe('');
+    expect(handle.canUndo()).toBe(false);
+  });
+
+  it('retries failed pushes with exponential backoff', async () => {
+    const storage = createInMemoryStorageAdapter();
+    let failures = 2;
+    const pushMock = vi.fn(async () => {
+      if (failures > 0) {
+        failures -= 1;
+        throw new Error('server unavailable');
+      }
+    });
+    const onError = vi.fn();
+    const runtime = new WiserRuntime({
+      storage,
+      sync: { pull: vi.fn(async () => null), push: pushMock },
+      policies: {
+        pullBeforePush: false,
+        retry: { initialDelay: 5, multiplier: 2, jitter: 0 },
+      },
+      onError,
+    });
+    const events: WiserSyncEvent[] = [];
+    runtime.onSyncEvent((event) => events.push(event));
+
+    const handle = await runtime.getDocument('doc-retry', Counter);
+    await handle.mutate((draft) => {
+      draft.stats.set('count', 1);
+    });
+
+    // Two failed attempts, then the snapshot and the update go through.
+    for (let i = 0; i < 50 && pushMock.mock.calls.length < 4; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    const retries = events.filter((event) => event.phase === 'retry-scheduled');
+    expect(retries.map(({ attempt, delay }) => ({ attempt, delay }))).toEqual([
+      { attempt: 1, delay: 5 },
+      { attempt: 2, delay: 10 },
+    ]);
+    expect(await storage.getPendingSync!('doc-retry')).toHaveLength(0);
+    expect(onError).toHaveBeenCalledTimes(2);
+  });
+
+  it('pauses pushes while offline and drains once connectivity returns', async () => {
+    const storage = createInMemoryStorageAdapter();
+    let online = false;
+    let notify: (online: boolean) => void = () => undefined;
+    const unsubscribe = vi.fn();
+    const pushMock = vi.fn(async () => undefined);
+    const runtime = new WiserRuntime({
+      storage,
+      sync: { pull: vi.fn(async () => null), push: pushMock },
+      connectivity: {
+        isOnline: () => online,
+        subscribe: (listener) => {
+          notify = listener;
+          return unsubscribe;
+        },
+      },
+    });
+    const events: WiserSyncEvent[] = [];
+    runtime.onSyncEvent((event) => events.push(event));
+
+    const handle = await runtime.getDocument('doc-offline-drain', Counter);
+    await handle.mutate((draft) => {
+      draft.stats.set('count', 1);
+    });
+    await handle.mutate((draft) => {
+      draft.stats.set('count', 2);
+    });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(pushMock).not.toHaveBeenCalled();
+    expect(events.some((event) => event.phase === 'offline')).toBe(true);
+    expect(await storage.getPendingSync!('doc-offline-drain')).toHaveLength(2);
+
+    online = true;
+    notify(true);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    // Snapshot plus one batch holding both pending updates.
+    expect(pushMock).toHaveBeenCalledTimes(2);
+    expect(await storage.getPendingSync!('doc-offline-drain')).toHaveLength(0);
+
+    runtime.dispose();
+    expect(unsubscribe).toHaveBeenCalledTimes(1);
+  });
+
+  it('merges pending updates into bounded batches and clears only acknowledged ones', async () => {
+    const storage = createInMemoryStorageAdapter();
+    const offline = new WiserRuntime({ storage });
+    const offlineHandle = await offline.getDocument('doc-batch', Counter);
+    for (let count = 1; count <= 5; count++) {
+      await offlineHandle.mutate((draft) => {
+        draft.stats.set(`key-${count}`, count);
+      });
+    }
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    const queued = (await storage.getPendingSync!('doc-batch'))!;
+    expect(queued).toHaveLength(5);
+
+    const pushed: Uint8Array[] = [];
+    let failSecondBatch = true;
+    const pullMock = vi.fn(async () => null);
+    const pushMock = vi.fn(
+      async (_docId: string, update: Uint8Array, options?: SyncPushOptions) => {
+        if (options?.isSnapshot) return;
+        if (pushed.length === 1 && failSecondBatch) {
+          failSecondBatch = false;
+          throw new Error('connection reset');
+        }
+        pushed.push(update);
+      }
+    );
+    const online = new WiserRuntime({
+      storage,
+      sync: { pull: pullMock, push: pushMock },
+      policies: { pushBatch: { maxUpdates: 2 }, retry: false },
+      onError: () => undefined,
+    });
+
+    const handle = await online.getDocument('doc-batch', Counter);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    // The first batch was acknowledged; the failed one is still pending.
+    expect(pushed).toHaveLength(1);
+    expect(await storage.getPendingSync!('doc-batch')).toHaveLength(3);
+
+    await handle.sync({ pull: false });
+    expect(pushed).toHaveLength(3);
+    expect(await storage.getPendingSync!('doc-batch')).toHaveLength(0);
+    // One pull on load, then a single pullBeforePush per flush.
+    expect(pullMock).toHaveBeenCalledTimes(3);
+
+    expect(pushed).toEqual([
+      Y.mergeUpdates(queued.slice(0, 2)),
+      Y.mergeUpdates(queued.slice(2, 4)),
+      queued[4],
+    ]);
+  });
+
+  it('hydrates a list of documents with a single pullMany round trip', async () => {
+    const storage = createInMemoryStorageAdapter();
+    const remoteDocs = new Map<string, Uint8Array>();
+    for (const [id, count] of [
+      ['list-a', 1],
+      ['list-b', 2],
+    ] as const) {
+      const remoteDoc = new Y.Doc();
+      Counter.instantiate(remoteDoc).data.stats.set('count', count);
+      remoteDocs.set(id, Y.encodeStateAsUpdate(remoteDoc));
+    }
+
+    const pullMock = vi.fn(async () => null);
+    const pullManyMock = vi.fn(async (requests: SyncPullRequest[]) =>
+      requests.map((request) => remoteDocs.get(request.docId) ?? null)
+    );
+    const runtime = new WiserRuntime({
+      storage,
+      sync: {
+        pull: pullMock,
+        pullMany: pullManyMock,
+        push: async () => undefined,
+      },
+    });
+
+    const existing = await runtime.getDocument('list-loaded', Counter);
+    pullMock.mockClear();
+
+    const handles = await runtime.getDocuments(
+      ['list-a', 'list-loaded', 'list-b', 'list-missing'],
+      Counter
+    );
+
+    expect(handles.map((handle) => handle.id)).toEqual([
+      'list-a',
+      'list-loaded',
+      'list-b',
+      'list-missing',
+    ]);
+    expect(handles[1]?.doc).toBe(existing.doc);
+    expect(handles[0]?.data.stats.get('count')).toBe(1);
+    expect(handles[2]?.data.stats.get('count')).toBe(2);
+    expect(handles[3]?.data.stats.get('count')).toBeUndefined();
+
+    expect(pullMock).not.toHaveBeenCalled();
+    expect(pullManyMock).toHaveBeenCalledTimes(1);
+    const requests = pullManyMock.mock.calls[0]![0];
+    expect(requests.map((request) => request.docId)).toEqual([
+      'list-a',
+      'list-b',
+      'list-missing',
+    ]);
+    expect(requests[0]?.options?.requestSnapshot).toBe(true);
+  });
+
+  it('coalesces pushes across documents and maps errors per document', async () => {
+    const storage = createInMemoryStorageAdapter();
+    const pushMock = vi.fn(async () => undefined);
+    const pushManyMock = vi.fn(async (requests: SyncPushRequest[]) =>
+      requests.map((request) =>
+        request.docId === 'line-2' && !request.options?.isSnapshot
+          ? { docId: request.docId, error: new Error('conflict') }
+          : { docId: request.docId }
+      )
+    );
+    const runtime = new WiserRuntime({
+      storage,
+      sync: {
+        pull: async () => null,
+        push: pushMock,
+        pushMany: pushManyMock,
+      },
+      policies: {
+        pullBeforePush: false,
+        snapshotSync: { send: false },
+        pushCoalesce: { window: 5 },
+        retry: false,
+      },
+      onError: () => undefined,
+    });
+
+    const handles = await runtime.getDocuments(
+      ['line-1', 'line-2', 'line-3'],
+      Counter
+    );
+    await Promise.all(
+      handles.map((handle, index) =>
+        handle.mutate((draft) => {
+          draft.stats.set('qty', index + 1);
+        })
+      )
+    );
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    // Every document's first snapshot goes out together, then every update.
+    expect(pushMock).not.toHaveBeenCalled();
+    expect(pushManyMock).toHaveBeenCalledTimes(2);
+    const [snapshots, updates] = pushManyMock.mock.calls.map(([requests]) =>
+      requests.map((request) => [request.docId, !!request.options?.isSnapshot])
+    );
+    expect(snapshots).toEqual([
+      ['line-1', true],
+      ['line-2', true],
+      ['line-3', true],
+    ]);
+    expect(updates).toEqual([
+      ['line-1', false],
+      ['line-2', false],
+      ['line-3', false],
+    ]);
+
+    expect(await storage.getPendingSync!('line-1')).toHaveLength(0);
+    expect(await storage.getPendingSync!('line-2')).toHaveLength(1);
+    expect(await storage.getPendingSync!('line-3')).toHaveLength(0);
+  });
+
+  it('applies separate codecs at the storage, sync and realtime boundaries', async () => {
+    const tagged = (tag: number): CodecAdapter => ({
+      encode: (update) => Uint8Array.from([tag, ...update]),
+      decode: (payload) => {
+        if (payload[0] !== tag) throw new Error(`expected tag ${tag}`);
+        return payload.slice(1);
+      },
+    });
+    const storage = createInMemoryStorageAdapter();
+
+    const remoteDoc = new Y.Doc();
+    Counter.instantiate(remoteDoc).data.stats.set('remote', 1);
+    const pushed: Uint8Array[] = [];
+    const published: Uint8Array[] = [];
+    const runtime = new WiserRuntime({
+      storage,
+      codec: { storage: tagged(0xaa), realtime: tagged(0xbb) },
+      sync: {
+        pull: async () => Y.encodeStateAsUpdate(remoteDoc),
+        push: async (_docId, update) => {
+          pushed.push(update);
+        },
+      },
+      realtime: {
+        subscribe: () => () => undefined,
+        publish: async (_docId, update) => {
+          published.push(update);
+        },
+      },
+      policies: { pullBeforePush: false },
+    });
+
+    const handle = await runtime.getDocument('doc-channels', Counter);
+    expect(handle.data.stats.get('remote')).toBe(1);
+    // The pulled state is re-encoded for storage.
+    expect((await storage.getSnapshot!('doc-channels'))?.snapshot?.[0]).toBe(0xaa);
+
+    await handle.mutate((draft) => {
+      draft.stats.set('local', 2);
+    });
+    await vi.waitFor(() => {
+      expect(published).toHaveLength(1);
+    });
+
+    const stored = (await storage.getUpdates!('doc-channels')) ?? [];
+    expect(stored.every((update) => update[0] === 0xaa)).toBe(true);
+    expect(published[0]?.[0]).toBe(0xbb);
+
+    // The server receives plain Yjs updates it can merge.
+    const server = new Y.Doc();
+    Y.applyUpdate(server, Y.encodeStateAsUpdate(remoteDoc));
+    for (const update of pushed) {
+      Y.applyUpdate(server, update);
+    }
+    expect(server.getMap('__wiser_root__').toJSON()).toMatchObject({
+      stats: { local: 2 },
+    });
+  });
+
+  it('tags realtime publishes and drops echoes of its own updates', async () => {
+    const storage = createInMemoryStorageAdapter();
+    let deliver: Parameters<RealtimeAdapter['subscribe']>[1] | null = null;
+    const publishMock = vi.fn<RealtimeAdapter['publish']>(async () => undefined);
+    const realtime: RealtimeAdapter = {
+      subscribe: (_docId, onUpdate) => {
+        deliver = onUpdate;
+        return () => undefined;
+      },
+      publish: publishMock,
+    };
+    const runtime = new WiserRuntime({ storage, realtime });
+    const handle = await runtime.getDocument('doc-realtime-echo', Counter);
+
+    await handle.mutate((draft) => {
+      draft.stats.set('count', 1);
+    });
+    await handle.mutate((draft) => {
+      draft.stats.set('count', 2);
+    });
+    await vi.waitFor(() => {
+      expect(publishMock).toHaveBeenCalledTimes(2);
+    });
+    const [first, second] = publishMock.mock.calls.map((call) => call[2]!);
+    expect(first).toEqual({ clientId: expect.any(String), seq: 1 });
+    expect(second).toEqual({ clientId: first.clientId, seq: 2 });
+
+    const remote = new Y.Doc();
+    Y.applyUpdate(remote, Y.encodeStateAsUpdate(handle.doc));
+    const before = Y.encodeStateVector(remote);
+    remote.getMap<Y.Map<number>>('__wiser_root__').get('stats')!.set('count', 9);
+    const update = Y.encodeStateAsUpdate(remote, before);
+
+    deliver!(update, { clientId: first.clientId, seq: 3 });
+    expect(handle.data.stats.get('count')).toBe(2);
+
+    deliver!(update, { clientId: 'peer', seq: 1 });
+    expect(handle.data.stats.get('count')).toBe(9);
+  });
+
+  it('pulls to catch up when a peer skips an update or the transport reconnects', async () => {
+    const storage = createInMemoryStorageAdapter();
+    let deliver: Parameters<RealtimeAdapter['subscribe']>[1] | null = null;
+    let context: Parameters<RealtimeAdapter['subscribe']>[2];
+    const realtime: RealtimeAdapter = {
+      subscribe: (_docId, onUpdate, subscribeContext) => {
+        deliver = onUpdate;
+        context = subscribeContext;
+        return () => undefined;
+      },
+      publish: async () => undefined,
+    };
+    const pull = vi.fn<SyncAdapter['pull']>(async () => null);
+    const sync: SyncAdapter = { pull, push: async () => undefined };
+    const runtime = new WiserRuntime({ storage, sync, realtime });
+    await runtime.getDocument('doc-realtime-gap', Counter);
+    expect(pull).toHaveBeenCalledTimes(1);
+
+    const empty = Y.encodeStateAsUpdate(new Y.Doc());
+    deliver!(empty, { clientId: 'peer', seq: 1 });
+    deliver!(empty, { clientId: 'peer', seq: 2 });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(pull).toHaveBeenCalledTimes(1);
+
+    deliver!(empty, { clientId: 'peer', seq: 4 });
+    await vi.waitFor(() => {
+      expect(pull).toHaveBeenCalledTimes(2);
+    });
+    expect(pull.mock.calls[1]![1]).toBeInstanceOf(Uint8Array);
+
+    context!.resync!();
+    await vi.waitFor(() => {
+      expect(pull).toHaveBeenCalledTimes(3);
+    });
+
+    // Numbering restarts from whatever the peer sends next.
+    deliver!(empty, { clientId: 'peer', seq: 7 });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(pull).toHaveBeenCalledTimes(3);
+  });
 });
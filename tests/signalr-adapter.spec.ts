@@ -12,7 +12,9 @@ vi.mock('@microsoft/signalr', async () => {
     public handlers = new Map<string, Array<(...args: any[]) => void>>();
     public invocations: Array<{ method: string; args: unknown[] }> = [];
     public onreconnectedHandlers: Array<() => void> = [];
+    public onreconnectingHandlers: Array<() => void> = [];
     public oncloseHandlers: Array<() => void> = [];
+    public failingMethods = new Set<string>();
 
     async start() {
       this.state = 'Connected';
@@ -42,6 +44,13 @@ vi.mock('@microsoft/signalr', async () => {
 
     async invoke(method: string, ...args: unknown[]) {
       this.invocations.push({ method, args });
+      if (this.failingMethods.has(method)) {
+        throw new Error(`${method} rejected`);
+      }
+    }
+
+    onreconnecting(handler: () => void) {
+      this.onreconnectingHandlers.push(handler);
     }
 
     onreconnected(handler: () => void) {
@@ -59,6 +68,12 @@ vi.mock('@microsoft/signalr', async () => {
       }
     }
 
+    triggerReconnecting() {
+      for (const handler of this.onreconnectingHandlers) {
+        handler();
+      }
+    }
+
     triggerReconnected() {
       for (const handler of this.onreconnectedHandlers) {
         handler();
@@ -243,4 +258,145 @@ describe('createSignalRRealtimeAdapter', () => {
     expect(joinedDocs).toContain('doc-1');
     expect(joinedDocs).toContain('doc-2');
   });
+
+  it('shares one group membership between updates and awareness', async () => {
+    const adapter = createSignalRRealtimeAdapter({ url: 'https://example.com/hub' });
+    const onUpdate = vi.fn();
+    const onAwareness = vi.fn();
+    const unsubscribeUpdates = adapter.subscribe('doc-1', onUpdate);
+    const unsubscribeAwareness = adapter.subscribeAwareness!('doc-1', onAwareness);
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    const internals = await getInternals();
+    const connection = internals.getBuilders()[0]!.connection!;
+    expect(
+      connection.invocations.filter(
+        (call: InvocationRecord) => call.method === 'JoinDocument'
+      )
+    ).toHaveLength(1);
+
+    const presence = new Uint8Array([9, 8, 7]);
+    connection.emit('AwarenessUpdate', 'doc-1', Buffer.from(presence).toString('base64'));
+    expect(onAwareness).toHaveBeenCalledTimes(1);
+    expect(Array.from(onAwareness.mock.calls[0]![0])).toEqual([9, 8, 7]);
+    expect(onUpdate).not.toHaveBeenCalled();
+
+    await adapter.publishAwareness!('doc-1', presence);
+    expect(
+      connection.invocations.find(
+        (call: InvocationRecord) => call.method === 'SendAwarenessUpdate'
+      )?.args
+    ).toEqual(['doc-1', Buffer.from(presence).toString('base64')]);
+
+    unsubscribeUpdates();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(
+      connection.invocations.some(
+        (call: InvocationRecord) => call.method === 'LeaveDocument'
+      )
+    ).toBe(false);
+
+    unsubscribeAwareness();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(
+      connection.invocations.some(
+        (call: InvocationRecord) => call.method === 'LeaveDocument'
+      )
+    ).toBe(true);
+  });
+
+  it('carries update metadata and asks for a resync after reconnecting', async () => {
+    const adapter = createSignalRRealtimeAdapter({
+      url: 'https://example.com/hub',
+      sendUpdateMeta: true,
+    });
+    const onUpdate = vi.fn();
+    const resync = vi.fn();
+    adapter.subscribe('doc-1', onUpdate, {
+      getStateVector: () => new Uint8Array(),
+      encodeStateAsUpdate: async () => new Uint8Array(),
+      resync,
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    const internals = await getInternals();
+    const connection = internals.getBuilders()[0]!.connection!;
+
+    const update = new Uint8Array([1, 2]);
+    const base64 = Buffer.from(update).toString('base64');
+    await adapter.publish('doc-1', update, { clientId: 'me', seq: 1 });
+    expect(
+      connection.invocations.find(
+        (call: InvocationRecord) => call.method === 'SendDocumentUpdate'
+      )?.args
+    ).toEqual(['doc-1', base64, { clientId: 'me', seq: 1 }]);
+
+    connection.emit('DocumentUpdate', 'doc-1', base64, { clientId: 'peer', seq: 4 });
+    connection.emit('DocumentUpdate', 'doc-1', base64);
+    expect(onUpdate.mock.calls[0]![1]).toEqual({ clientId: 'peer', seq: 4 });
+    expect(onUpdate.mock.calls[1]![1]).toBeUndefined();
+
+    connection.triggerReconnected();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(resync).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports connection state and per-document join status', async () => {
+    const onError = vi.fn();
+    const adapter = createSignalRRealtimeAdapter({
+      url: 'https://example.com/hub',
+      onError,
+    });
+    const states: string[] = [];
+    const documents: Array<[string, string]> = [];
+    adapter.onStateChange((state) => states.push(state));
+    adapter.onDocumentStatusChange((docId, status) =>
+      documents.push([docId, status.state])
+    );
+    expect(adapter.getState()).toBe('disconnected');
+
+    adapter.subscribe('doc-1', vi.fn());
+    expect(adapter.getDocumentStatus('doc-1')).toEqual({ state: 'joining' });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(adapter.getState()).toBe('connected');
+    expect(adapter.getDocumentStatus('doc-1')).toEqual({ state: 'joined' });
+    expect(adapter.getDocumentStatus('doc-2')).toBeNull();
+
+    const internals = await getInternals();
+    const connection = internals.getBuilders()[0]!.connection!;
+    connection.triggerReconnecting();
+    expect(adapter.getState()).toBe('reconnecting');
+
+    connection.failingMethods.add('JoinDocument');
+    connection.triggerReconnected();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(adapter.getState()).toBe('connected');
+    expect(adapter.getDocumentStatus('doc-1')).toMatchObject({
+      state: 'failed',
+      error: expect.any(Error),
+    });
+    expect(onError).toHaveBeenCalled();
+    expect(states).toEqual([
+      'disconnected',
+      'connecting',
+      'connected',
+      'reconnecting',
+      'connected',
+    ]);
+    expect(documents).toEqual([
+      ['doc-1', 'joined'],
+      ['doc-1', 'joining'],
+      ['doc-1', 'failed'],
+    ]);
+
+    await adapter.dispose();
+    expect(connection.state).toBe('Disconnected');
+    expect(adapter.getState()).toBe('disconnected');
+    expect(adapter.getDocumentStatus('doc-1')).toBeNull();
+    await expect(adapter.publish('doc-1', new Uint8Array([1]))).rejects.toThrow(
+      /disposed/
+    );
+  });
 });
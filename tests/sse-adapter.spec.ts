@@ -0,0 +1,206 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { EventHandler } from '../src/realtime/eventHandler';
+import { createSseRealtimeAdapter } from '../src/realtime/sseAdapter';
+
+type FakeMessageEvent = { data: string; lastEventId: string };
+
+class FakeEventSource {
+  static instances: FakeEventSource[] = [];
+  readyState = 0;
+  onopen: EventHandler<unknown> | null = null;
+  onerror: EventHandler<unknown> | null = null;
+  closed = false;
+  private readonly listeners = new Map<
+    string,
+    Array<EventHandler<FakeMessageEvent>>
+  >();
+
+  constructor(public readonly url: string) {
+    FakeEventSource.instances.push(this);
+  }
+
+  addEventListener(type: string, listener: EventHandler<FakeMessageEvent>) {
+    this.listeners.set(type, [...(this.listeners.get(type) ?? []), listener]);
+  }
+
+  close() {
+    this.closed = true;
+    this.readyState = 2;
+  }
+
+  open() {
+    this.readyState = 1;
+    this.onopen?.({});
+  }
+
+  fail(readyState: number) {
+    this.readyState = readyState;
+    this.onerror?.({});
+  }
+
+  emit(type: string, data: unknown, lastEventId = '') {
+    for (const listener of this.listeners.get(type) ?? []) {
+      listener({ data: JSON.stringify(data), lastEventId });
+    }
+  }
+}
+
+const toBase64 = (bytes: number[]) => Buffer.from(bytes).toString('base64');
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('createSseRealtimeAdapter', () => {
+  let requests: Array<{ url: string; body: any }>;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  const createAdapter = () =>
+    createSseRealtimeAdapter({
+      streamUrl: 'https://rt.example.com/stream',
+      publishUrl: 'https://rt.example.com/publish',
+      EventSource: FakeEventSource,
+      fetch: fetchMock as unknown as typeof fetch,
+      connectionId: 'conn-1',
+      reconnectDelay: 10,
+    });
+
+  beforeEach(() => {
+    FakeEventSource.instances = [];
+    requests = [];
+    fetchMock = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+      requests.push({ url: String(input), body: JSON.parse(String(init?.body)) });
+      return new Response(null, { status: 204 });
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('multiplexes documents over one stream and batches subscription changes', async () => {
+    const adapter = createAdapter();
+    const received: Array<[string, number[]]> = [];
+    const unsubscribeA = adapter.subscribe('doc-a', (update) =>
+      received.push(['doc-a', Array.from(update)])
+    );
+    adapter.subscribe('doc-b', (update) =>
+      received.push(['doc-b', Array.from(update)])
+    );
+
+    expect(FakeEventSource.instances).toHaveLength(1);
+    const stream = FakeEventSource.instances[0]!;
+    expect(stream.url).toBe('https://rt.example.com/stream?connectionId=conn-1');
+
+    stream.open();
+    await flush();
+    expect(requests).toEqual([
+      {
+        url: 'https://rt.example.com/stream/subscriptions',
+        body: { connectionId: 'conn-1', subscribe: ['doc-a', 'doc-b'], unsubscribe: [] },
+      },
+    ]);
+
+    stream.emit('update', { docId: 'doc-b', update: toBase64([1, 2]) }, '7');
+    stream.emit('update', { docId: 'unknown', update: toBase64([3]) }, '8');
+    expect(received).toEqual([['doc-b', [1, 2]]]);
+
+    unsubscribeA();
+    await flush();
+    expect(requests[1]).toEqual({
+      url: 'https://rt.example.com/stream/subscriptions',
+      body: { connectionId: 'conn-1', subscribe: [], unsubscribe: ['doc-a'] },
+    });
+    expect(stream.closed).toBe(false);
+  });
+
+  it('publishes document and awareness updates over HTTP', async () => {
+    const adapter = createAdapter();
+    const awareness: number[][] = [];
+    adapter.subscribeAwareness!('doc-a', (update) => awareness.push(Array.from(update)));
+    FakeEventSource.instances[0]!.emit('awareness', {
+      docId: 'doc-a',
+      update: toBase64([9]),
+    });
+
+    await adapter.publish('doc-a', Uint8Array.from([4, 5]));
+    await adapter.publishAwareness!('doc-a', Uint8Array.from([6]));
+
+    expect(awareness).toEqual([[9]]);
+    expect(requests.map((request) => request.body)).toEqual([
+      { connectionId: 'conn-1', docId: 'doc-a', event: 'update', update: toBase64([4, 5]) },
+      { connectionId: 'conn-1', docId: 'doc-a', event: 'awareness', update: toBase64([6]) },
+    ]);
+  });
+
+  it('reopens a closed stream from the last event id and replays subscriptions', async () => {
+    vi.useFakeTimers();
+    const adapter = createAdapter();
+    adapter.subscribe('doc-a', () => undefined);
+    const first = FakeEventSource.instances[0]!;
+    first.open();
+    await vi.runAllTimersAsync();
+    first.emit('update', { docId: 'doc-a', update: toBase64([1]) }, '41');
+
+    // A transient error leaves reconnecting to the EventSource itself.
+    first.fail(0);
+    expect(FakeEventSource.instances).toHaveLength(1);
+
+    first.fail(2);
+    await vi.advanceTimersByTimeAsync(10);
+    expect(FakeEventSource.instances).toHaveLength(2);
+    const second = FakeEventSource.instances[1]!;
+    expect(second.url).toBe(
+      'https://rt.example.com/stream?connectionId=conn-1&lastEventId=41'
+    );
+
+    second.open();
+    await vi.runAllTimersAsync();
+    expect(requests.map((request) => request.body.subscribe)).toEqual([
+      ['doc-a'],
+      ['doc-a'],
+    ]);
+
+    adapter.dispose();
+    expect(second.closed).toBe(true);
+  });
+
+  it('carries update metadata and resyncs documents after reconnecting', async () => {
+    const adapter = createAdapter();
+    const received: unknown[] = [];
+    const resync = vi.fn();
+    adapter.subscribe('doc-a', (_update, meta) => received.push(meta), {
+      getStateVector: () => new Uint8Array(),
+      encodeStateAsUpdate: async () => new Uint8Array(),
+      resync,
+    });
+    const stream = FakeEventSource.instances[0]!;
+
+    await adapter.publish('doc-a', Uint8Array.from([1]), { clientId: 'me', seq: 4 });
+    expect(requests[0]!.body.meta).toEqual({ clientId: 'me', seq: 4 });
+
+    stream.emit('update', {
+      docId: 'doc-a',
+      update: toBase64([2]),
+      meta: { clientId: 'peer', seq: 1 },
+    });
+    stream.emit('update', { docId: 'doc-a', update: toBase64([3]), meta: 'bogus' });
+    expect(received).toEqual([{ clientId: 'peer', seq: 1 }, undefined]);
+
+    stream.open();
+    expect(resync).not.toHaveBeenCalled();
+    // The EventSource reconnecting by itself opens the same stream again.
+    stream.fail(0);
+    stream.open();
+    expect(resync).toHaveBeenCalledTimes(1);
+  });
+
+  it('closes the stream once the last document is released', () => {
+    const adapter = createAdapter();
+    const unsubscribe = adapter.subscribe('doc-a', () => undefined);
+    const unsubscribeAwareness = adapter.subscribeAwareness!('doc-a', () => undefined);
+
+    unsubscribe();
+    expect(FakeEventSource.instances[0]!.closed).toBe(false);
+    unsubscribeAwareness();
+    expect(FakeEventSource.instances[0]!.closed).toBe(true);
+  });
+});
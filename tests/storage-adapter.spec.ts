@@ -84,6 +84,24 @@ describe('InMemoryStorageAdapter', () => {
     expect(stored?.updates).toEqual([Uint8Array.from([1])]);
   });
 
+  it('compacts updates that precede the given snapshot generation', async () => {
+    const docId = 'shopping-list';
+    const setSnapshot = expectDefined(storage.setSnapshot, 'setSnapshot');
+    const compact = expectDefined(storage.compact, 'compact');
+
+    await storage.appendUpdate(docId, Uint8Array.from([1]));
+    await setSnapshot(docId, Uint8Array.from([5]));
+    await storage.appendUpdate(docId, Uint8Array.from([2]));
+    await setSnapshot(docId, Uint8Array.from([6]));
+    await storage.appendUpdate(docId, Uint8Array.from([3]));
+
+    await compact(docId, 2);
+
+    const stored = await assembleStoredDoc(storage, docId);
+    expect(stored?.snapshot).toEqual(Uint8Array.from([6]));
+    expect(stored?.updates).toEqual([Uint8Array.from([3])]);
+  });
+
   it('removes snapshots and updates when remove is called', async () => {
     const docId = 'shopping-list';
     const setSnapshot = expectDefined(storage.setSnapshot, 'setSnapshot');
@@ -94,6 +112,26 @@ describe('InMemoryStorageAdapter', () => {
 
     await expect(assembleStoredDoc(storage, docId)).resolves.toBeNull();
   });
+
+  it('keeps sync cursors per adapter key and clears them on remove', async () => {
+    const docId = 'shopping-list';
+    const getSyncCursor = expectDefined(storage.getSyncCursor, 'getSyncCursor');
+    const setSyncCursor = expectDefined(storage.setSyncCursor, 'setSyncCursor');
+
+    await setSyncCursor(docId, 'rest:a', '2024-01-01T00:00:00.000Z');
+    await setSyncCursor(docId, 'rest:b', '2024-02-01T00:00:00.000Z');
+    await setSyncCursor(docId, 'rest:b', null);
+
+    await expect(getSyncCursor(docId, 'rest:a')).resolves.toBe(
+      '2024-01-01T00:00:00.000Z'
+    );
+    await expect(getSyncCursor(docId, 'rest:b')).resolves.toBeNull();
+    await expect(assembleStoredDoc(storage, docId)).resolves.toBeNull();
+
+    await storage.remove(docId);
+
+    await expect(getSyncCursor(docId, 'rest:a')).resolves.toBeNull();
+  });
 });
 
 describe('assembleStoredDoc', () => {
@@ -0,0 +1,170 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import * as Y from 'yjs';
+import { Wiser } from '../src/wiser';
+import { WiserRuntime } from '../src/runtime/runtime';
+import { createInMemoryStorageAdapter } from '../src/storage/inMemoryStorageAdapter';
+import { createRestSyncAdapter } from '../src/sync/restAdapter';
+import {
+  createFetchHandler,
+  createNodeHttpHandler,
+  createSyncHandler,
+} from '../src/server';
+
+const Counter = Wiser.define('Counter', (y) => ({
+  stats: y.map<number>(),
+}));
+
+const toBase64 = (bytes: Uint8Array) => Buffer.from(bytes).toString('base64');
+
+function createClient(handle: (request: Request) => Promise<Response>) {
+  return new WiserRuntime({
+    storage: createInMemoryStorageAdapter(),
+    sync: createRestSyncAdapter({
+      baseUrl: 'https://sync.example.com/api',
+      fetch: async (input, init) => handle(new Request(input, init)),
+    }),
+  });
+}
+
+describe('createSyncHandler', () => {
+  let server: Server | null = null;
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => {
+      if (!server) return resolve();
+      server.close(() => resolve());
+    });
+    server = null;
+  });
+
+  it('syncs REST adapter clients through the fetch binding', async () => {
+    const serverStorage = createInMemoryStorageAdapter();
+    const handle = createFetchHandler(createSyncHandler({ storage: serverStorage }));
+
+    const alice = createClient(handle);
+    const aliceDoc = await alice.getDocument('shared', Counter);
+    await aliceDoc.mutate((draft) => {
+      draft.stats.set('alice', 1);
+    });
+    await aliceDoc.sync({ pull: false });
+
+    const bob = createClient(handle);
+    const bobDoc = await bob.getDocument('shared', Counter);
+    expect(bobDoc.data.stats.toJSON()).toEqual({ alice: 1 });
+
+    await bobDoc.mutate((draft) => {
+      draft.stats.set('bob', 2);
+    });
+    await bobDoc.sync({ pull: false });
+
+    await aliceDoc.sync({ push: false });
+    expect(aliceDoc.data.stats.toJSON()).toEqual({ alice: 1, bob: 2 });
+  });
+
+  it('answers pulls with state vector diffs and merges pushed snapshots', async () => {
+    const storage = createInMemoryStorageAdapter();
+    const handler = createSyncHandler({
+      storage,
+      now: () => new Date('2024-05-01T00:00:00Z'),
+      onError: () => undefined,
+    });
+
+    const client = new Y.Doc();
+    const text = client.getText('body');
+    text.insert(0, 'hello');
+    const first = Y.encodeStateAsUpdate(client);
+    const vector = Y.encodeStateVector(client);
+    text.insert(5, ' world');
+    const second = Y.encodeStateAsUpdate(client, vector);
+
+    const pushed = await handler.handle({
+      method: 'POST',
+      path: '/push',
+      body: {
+        documents: [
+          { id: 'doc', update: toBase64(first), isSnapshot: false },
+          { id: 'bad', update: toBase64(new Uint8Array([255, 255, 255])) },
+        ],
+      },
+    });
+    expect(pushed.body).toMatchObject({
+      documents: [
+        { id: 'doc', dateLastSynced: '2024-05-01T00:00:00.000Z' },
+        { id: 'bad', error: expect.stringContaining('not a valid Yjs update') },
+      ],
+    });
+
+    await handler.handle({
+      method: 'POST',
+      path: '/push',
+      body: { documents: [{ id: 'doc', update: toBase64(second) }] },
+    });
+
+    const diff = await handler.handle({
+      method: 'POST',
+      path: '/api/pull',
+      body: { documents: [{ id: 'doc', stateVector: toBase64(vector) }] },
+    });
+    const [entry] = (diff.body as { documents: Array<{ updates: string[] }> })
+      .documents;
+    const replica = new Y.Doc();
+    Y.applyUpdate(replica, first);
+    Y.applyUpdate(replica, Buffer.from(entry!.updates[0]!, 'base64'));
+    expect(replica.getText('body').toString()).toBe('hello world');
+
+    // A snapshot from a client that never saw " world" must not drop it.
+    const stale = new Y.Doc();
+    Y.applyUpdate(stale, first);
+    stale.getText('body').insert(0, '> ');
+    await handler.handle({
+      method: 'POST',
+      path: '/push',
+      body: {
+        documents: [
+          { id: 'doc', update: toBase64(Y.encodeStateAsUpdate(stale)), isSnapshot: true },
+        ],
+      },
+    });
+    expect(await storage.getUpdates('doc')).toEqual([]);
+
+    const snapshot = await handler.handle({
+      method: 'POST',
+      path: '/pull',
+      body: { documents: [{ id: 'doc', requestSnapshot: true }] },
+    });
+    const restored = new Y.Doc();
+    Y.applyUpdate(
+      restored,
+      Buffer.from(
+        (snapshot.body as { documents: Array<{ snapshot: string }> }).documents[0]!
+          .snapshot,
+        'base64'
+      )
+    );
+    expect(restored.getText('body').toString()).toBe('> hello world');
+  });
+
+  it('serves the protocol over node:http', async () => {
+    const handler = createSyncHandler({ storage: createInMemoryStorageAdapter() });
+    server = createServer(createNodeHttpHandler(handler));
+    await new Promise<void>((resolve) => server!.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    const base = `http://127.0.0.1:${port}`;
+
+    const pull = await fetch(`${base}/sync/pull`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ documents: [{ id: 'empty', requestSnapshot: true }] }),
+    });
+    expect(pull.status).toBe(200);
+    expect((await pull.json()).documents[0]).toMatchObject({ id: 'empty', updates: [] });
+
+    const malformed = await fetch(`${base}/sync/push`, { method: 'POST', body: '{' });
+    expect(malformed.status).toBe(400);
+
+    const unknown = await fetch(`${base}/sync/other`, { method: 'POST', body: '{}' });
+    expect(unknown.status).toBe(404);
+  });
+});
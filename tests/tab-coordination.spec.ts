@@ -0,0 +1,370 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import * as Y from 'yjs';
+import { WiserRuntime } from '../src/runtime/runtime';
+import { createInMemoryStorageAdapter } from '../src/storage/inMemoryStorageAdapter';
+import type {
+  LeaderElection,
+  RealtimeAdapter,
+  RealtimeConnectionState,
+  StorageAdapter,
+  SyncAdapter,
+  WiserConfig,
+} from '../src/types';
+import { ROOT_MAP_NAME, Wiser } from '../src/wiser';
+
+const Counter = Wiser.define('Counter', (y) => ({
+  stats: y.map<number>(),
+}));
+
+type FakeElection = LeaderElection & { set(isLeader: boolean): void };
+
+const createFakeElection = (initial: boolean): FakeElection => {
+  const listeners = new Set<(isLeader: boolean) => void>();
+  let leader = initial;
+  return {
+    isLeader: () => leader,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    dispose() {
+      listeners.clear();
+    },
+    set(next) {
+      leader = next;
+      for (const listener of listeners) listener(next);
+    },
+  };
+};
+
+const createRecordingSync = () => {
+  const pushed: Array<{ docId: string; update: Uint8Array }> = [];
+  const sync: SyncAdapter = {
+    pull: vi.fn(async () => null),
+    push: vi.fn(async (docId: string, update: Uint8Array) => {
+      pushed.push({ docId, update });
+    }),
+  };
+  return { sync, pushed };
+};
+
+const pushedState = (pushed: Array<{ update: Uint8Array }>) => {
+  const doc = new Y.Doc();
+  for (const { update } of pushed) Y.applyUpdate(doc, update);
+  return doc.getMap<Y.Map<number>>(ROOT_MAP_NAME).get('stats')?.get('clicks');
+};
+
+describe('cross-tab coordination', () => {
+  const runtimes: WiserRuntime[] = [];
+
+  // Tabs share persistent storage, just like tabs of one origin share IndexedDB.
+  const openTab = (
+    namespace: string,
+    storage: StorageAdapter,
+    election: FakeElection,
+    config: Partial<WiserConfig> = {}
+  ) => {
+    const { sync, pushed } = createRecordingSync();
+    const runtime = new WiserRuntime({
+      ...config,
+      storage,
+      sync,
+      tabs: { namespace, election, requestTimeout: 500 },
+    });
+    runtimes.push(runtime);
+    return { runtime, sync, pushed, election };
+  };
+
+  afterEach(() => {
+    for (const runtime of runtimes.splice(0)) {
+      runtime.dispose();
+    }
+  });
+
+  it('routes follower pulls and pushes through the leader tab', async () => {
+    const storage = createInMemoryStorageAdapter();
+    const leader = openTab('tabs-forward', storage, createFakeElection(true));
+    const follower = openTab('tabs-forward', storage, createFakeElection(false));
+
+    const handle = await follower.runtime.getDocument('doc', Counter);
+    expect(leader.sync.pull).toHaveBeenCalledWith(
+      'doc',
+      undefined,
+      { requestSnapshot: true }
+    );
+
+    await handle.mutate((draft) => {
+      draft.stats.set('clicks', 1);
+    });
+
+    await vi.waitFor(() => {
+      expect(pushedState(leader.pushed)).toBe(1);
+    });
+    expect(follower.sync.pull).not.toHaveBeenCalled();
+    expect(follower.sync.push).not.toHaveBeenCalled();
+    await vi.waitFor(async () => {
+      expect(await storage.getPendingSync?.('doc')).toEqual([]);
+    });
+  });
+
+  it('shares edits with tabs that have the document open', async () => {
+    const storage = createInMemoryStorageAdapter();
+    const leader = openTab('tabs-share', storage, createFakeElection(true));
+    const follower = openTab('tabs-share', storage, createFakeElection(false));
+    const leaderHandle = await leader.runtime.getDocument('doc', Counter);
+    const followerHandle = await follower.runtime.getDocument('doc', Counter);
+
+    await followerHandle.mutate((draft) => {
+      draft.stats.set('clicks', 1);
+    });
+    await vi.waitFor(() => {
+      expect(leaderHandle.data.stats.get('clicks')).toBe(1);
+      expect(pushedState(leader.pushed)).toBe(1);
+    });
+
+    await leaderHandle.mutate((draft) => {
+      draft.stats.set('views', 2);
+    });
+    await vi.waitFor(() => {
+      expect(followerHandle.data.stats.get('views')).toBe(2);
+    });
+    expect(follower.sync.push).not.toHaveBeenCalled();
+  });
+
+  it('hands unacknowledged edits to the tab that becomes leader', async () => {
+    const storage = createInMemoryStorageAdapter();
+    const leader = openTab('tabs-failover', storage, createFakeElection(true));
+    const follower = openTab('tabs-failover', storage, createFakeElection(false));
+    const handle = await follower.runtime.getDocument('doc', Counter);
+
+    leader.runtime.dispose();
+    await handle.mutate((draft) => {
+      draft.stats.set('clicks', 3);
+    });
+    // Let the edit go out to a leader that is no longer listening.
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(follower.sync.push).not.toHaveBeenCalled();
+
+    follower.election.set(true);
+
+    await vi.waitFor(() => {
+      expect(pushedState(follower.pushed)).toBe(3);
+    });
+    expect(leader.sync.push).not.toHaveBeenCalled();
+  });
+
+  it('re-sends forwarded edits until the leader acknowledges them', async () => {
+    const follower = new WiserRuntime({
+      storage: createInMemoryStorageAdapter(),
+      sync: createRecordingSync().sync,
+      tabs: {
+        namespace: 'tabs-retry',
+        election: createFakeElection(false),
+        requestTimeout: 20,
+      },
+    });
+    runtimes.push(follower);
+    // Stands in for a leader that answers pulls but never acknowledges edits.
+    const channel = new BroadcastChannel('sync-wiser-tabs:tabs-retry');
+    const forwards: Array<{ sender: string; seq: number }> = [];
+    channel.onmessage = ({ data }) => {
+      if (data.type === 'pull') {
+        channel.postMessage({
+          type: 'pull-result',
+          sender: 'leader',
+          target: data.sender,
+          requestId: data.requestId,
+          result: null,
+        });
+      } else if (data.type === 'update' && data.seq !== undefined) {
+        forwards.push(data);
+      }
+    };
+    const countSent = (seq: number) =>
+      forwards.filter((forward) => forward.seq === seq).length;
+
+    try {
+      const handle = await follower.getDocument('doc', Counter);
+      await handle.mutate((draft) => {
+        draft.stats.set('clicks', 1);
+      });
+      await vi.waitFor(() => {
+        expect(forwards.length).toBeGreaterThan(0);
+        expect(countSent(forwards[0]!.seq)).toBeGreaterThanOrEqual(3);
+      });
+
+      for (const { sender, seq } of forwards) {
+        channel.postMessage({ type: 'ack', sender: 'leader', target: sender, seq });
+      }
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      const sent = forwards.length;
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      expect(forwards.length).toBe(sent);
+    } finally {
+      channel.close();
+    }
+  });
+
+  it('queues follower edits in storage for whichever tab leads next', async () => {
+    const storage = createInMemoryStorageAdapter();
+    const leader = openTab('tabs-pending', storage, createFakeElection(true));
+    const follower = openTab('tabs-pending', storage, createFakeElection(false));
+    const handle = await follower.runtime.getDocument('doc', Counter);
+
+    leader.runtime.dispose();
+    await handle.mutate((draft) => {
+      draft.stats.set('clicks', 3);
+    });
+    await vi.waitFor(async () => {
+      expect(await storage.getPendingSync?.('doc')).toHaveLength(1);
+    });
+    // The follower closes before any leader acknowledged the edit.
+    follower.runtime.dispose();
+
+    const next = openTab('tabs-pending', storage, createFakeElection(true));
+    await next.runtime.getDocument('doc', Counter);
+    await vi.waitFor(() => {
+      expect(pushedState(next.pushed)).toBe(3);
+    });
+    expect(leader.sync.push).not.toHaveBeenCalled();
+    expect(follower.sync.push).not.toHaveBeenCalled();
+  });
+
+  it('stops relaying documents for tabs that stop renewing their watch', async () => {
+    const storage = createInMemoryStorageAdapter();
+    const relays = new Map<string, { stopped: boolean }>();
+    const realtime: RealtimeAdapter = {
+      subscribe(docId) {
+        const relay = { stopped: false };
+        relays.set(docId, relay);
+        return () => {
+          relay.stopped = true;
+        };
+      },
+      publish: async () => undefined,
+    };
+    const tabs = (election: FakeElection) => ({
+      namespace: 'tabs-watch',
+      election,
+      requestTimeout: 20,
+    });
+    const leader = new WiserRuntime({
+      storage,
+      realtime,
+      tabs: tabs(createFakeElection(true)),
+    });
+    const follower = new WiserRuntime({
+      storage,
+      realtime,
+      tabs: tabs(createFakeElection(false)),
+    });
+    runtimes.push(leader, follower);
+    await follower.getDocument('open', Counter);
+
+    // A tab that crashed after asking for a document never sends 'unwatch'.
+    const channel = new BroadcastChannel('sync-wiser-tabs:tabs-watch');
+    channel.postMessage({ type: 'watch', sender: 'crashed', docId: 'orphan' });
+    channel.close();
+    await vi.waitFor(() => {
+      expect(relays.get('orphan')?.stopped).toBe(false);
+    });
+
+    await vi.waitFor(() => {
+      expect(relays.get('orphan')?.stopped).toBe(true);
+    });
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(relays.get('open')?.stopped).toBe(false);
+  });
+
+  it('keeps edits other tabs append while a snapshot is written', async () => {
+    const shared = createInMemoryStorageAdapter();
+    let beforeSnapshot: (() => Promise<void>) | null = null;
+    let interleaved = false;
+    const storage: StorageAdapter = {
+      ...shared,
+      async setSnapshot(docId, snapshot) {
+        const hook = beforeSnapshot;
+        beforeSnapshot = null;
+        await hook?.();
+        await shared.setSnapshot!(docId, snapshot);
+        if (hook) interleaved = true;
+      },
+    };
+    const leader = openTab('tabs-compact', storage, createFakeElection(true), {
+      policies: { snapshotEvery: { updates: 1 } },
+    });
+    const follower = openTab('tabs-compact', storage, createFakeElection(false));
+    const followerHandle = await follower.runtime.getDocument('doc', Counter);
+    const leaderHandle = await leader.runtime.getDocument('doc', Counter);
+
+    // The follower's edit reaches storage after the leader encoded its snapshot.
+    const countUpdates = async () => (await shared.getUpdates('doc'))?.length ?? 0;
+    beforeSnapshot = async () => {
+      const appended = await countUpdates();
+      await followerHandle.mutate((draft) => {
+        draft.stats.set('views', 2);
+      });
+      await vi.waitFor(async () => {
+        expect(await countUpdates()).toBe(appended + 1);
+      });
+    };
+    await leaderHandle.mutate((draft) => {
+      draft.stats.set('clicks', 1);
+    });
+    await vi.waitFor(() => {
+      expect(interleaved).toBe(true);
+    });
+    // Let the leader finish any compaction that follows the snapshot.
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    const reloaded = new WiserRuntime({ storage: shared });
+    runtimes.push(reloaded);
+    const handle = await reloaded.getDocument('doc', Counter);
+    expect(handle.data.stats.get('clicks')).toBe(1);
+    expect(handle.data.stats.get('views')).toBe(2);
+  });
+
+  it('reports the leader tab realtime connection in follower tabs', async () => {
+    const storage = createInMemoryStorageAdapter();
+    const statusListeners = new Set<(state: RealtimeConnectionState) => void>();
+    const setLeaderStatus = (state: RealtimeConnectionState) => {
+      for (const listener of statusListeners) listener(state);
+    };
+    const realtime: RealtimeAdapter = {
+      subscribe: () => () => undefined,
+      publish: async () => undefined,
+      onStatusChange(listener) {
+        statusListeners.add(listener);
+        return () => {
+          statusListeners.delete(listener);
+        };
+      },
+    };
+    const leader = openTab('tabs-status', storage, createFakeElection(true), {
+      realtime,
+    });
+    const follower = openTab('tabs-status', storage, createFakeElection(false));
+    const seen: RealtimeConnectionState[] = [];
+    follower.runtime.onRealtimeStatusChange((state) => seen.push(state));
+
+    setLeaderStatus('connected');
+    expect(leader.runtime.getRealtimeStatus()).toBe('connected');
+    await vi.waitFor(() => {
+      expect(follower.runtime.getRealtimeStatus()).toBe('connected');
+    });
+
+    setLeaderStatus('reconnecting');
+    await vi.waitFor(() => {
+      expect(follower.runtime.getRealtimeStatus()).toBe('reconnecting');
+    });
+    expect(seen).toEqual(['connected', 'reconnecting']);
+
+    // A tab opened later learns the state when it says hello.
+    const late = openTab('tabs-status', storage, createFakeElection(false));
+    await vi.waitFor(() => {
+      expect(late.runtime.getRealtimeStatus()).toBe('reconnecting');
+    });
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest';
 import * as Y from 'yjs';
-import { Wiser } from '../src/wiser';
+import { MIGRATION_ORIGIN, Wiser } from '../src/wiser';
 
 describe('Wiser.define', () => {
   const ShoppingList = Wiser.define('ShoppingList', (y) => ({
@@ -27,4 +27,135 @@ describe('Wiser.define', () => {
     expect(reopened.data.name.toString()).toBe('Groceries');
     expect(reopened.data.items.length).toBe(1);
   });
+
+  describe('versioning', () => {
+    const TodoV1 = Wiser.define('Todo', (y) => ({
+      title: y.text(),
+      tags: y.array<string>(),
+    }));
+
+    // v2 renames `title` to `name` and turns `tags` into a set-like map.
+    const TodoV2 = Wiser.define(
+      'Todo',
+      (y) => ({
+        name: y.text(),
+        tags: y.map<boolean>(),
+      }),
+      {
+        version: 2,
+        migrations: {
+          2: ({ root }) => {
+            const title = root.get('title') as Y.Text | undefined;
+            root.set('name', new Y.Text(title?.toString() ?? ''));
+            root.delete('title');
+
+            const tags = root.get('tags') as Y.Array<string> | undefined;
+            const tagMap = new Y.Map<boolean>();
+            for (const tag of tags?.toArray() ?? []) {
+              tagMap.set(tag, true);
+            }
+            root.set('tags', tagMap);
+          },
+        },
+      }
+    );
+
+    const seedLegacyDoc = () => {
+      const doc = new Y.Doc();
+      // Simulate a doc written before models carried a version.
+      const root = doc.getMap<unknown>('__wiser_root__');
+      const title = new Y.Text();
+      title.insert(0, 'Ship it');
+      const tags = new Y.Array<string>();
+      tags.push(['work', 'urgent']);
+      root.set('title', title);
+      root.set('tags', tags);
+      return doc;
+    };
+
+    it('stamps fresh docs with the model version', () => {
+      const { doc } = TodoV2.instantiate();
+      expect(doc.getMap('__wiser_meta__').get('version')).toBe(2);
+      expect(TodoV1.version).toBe(1);
+      expect(TodoV2.version).toBe(2);
+    });
+
+    it('migrates older docs once inside a migration transaction', () => {
+      const doc = seedLegacyDoc();
+      const origins: unknown[] = [];
+      doc.on('afterTransaction', (transaction: Y.Transaction) => {
+        origins.push(transaction.origin);
+      });
+
+      const { data } = TodoV2.instantiate(doc);
+      expect(data.name.toString()).toBe('Ship it');
+      expect(data.tags.toJSON()).toEqual({ work: true, urgent: true });
+      expect(doc.getMap('__wiser_root__').has('title')).toBe(false);
+      expect(doc.getMap('__wiser_meta__').get('version')).toBe(2);
+      expect(origins).toEqual([MIGRATION_ORIGIN]);
+
+      TodoV2.ensureStructure(doc);
+      expect(origins).toEqual([MIGRATION_ORIGIN]);
+    });
+
+    it('converges when two clients migrate the same doc concurrently', () => {
+      const base = seedLegacyDoc();
+      const left = new Y.Doc();
+      const right = new Y.Doc();
+      Y.applyUpdate(left, Y.encodeStateAsUpdate(base));
+      Y.applyUpdate(right, Y.encodeStateAsUpdate(base));
+
+      TodoV2.instantiate(left);
+      TodoV2.instantiate(right);
+      Y.applyUpdate(left, Y.encodeStateAsUpdate(right));
+      Y.applyUpdate(right, Y.encodeStateAsUpdate(left));
+
+      expect(left.toJSON()).toEqual(right.toJSON());
+      const { data } = TodoV2.instantiate(left);
+      expect(data.name.toString()).toBe('Ship it');
+      expect(data.tags.toJSON()).toEqual({ work: true, urgent: true });
+    });
+
+    it('leaves the doc untouched when a step fails so a retry starts clean', () => {
+      const doc = seedLegacyDoc();
+      const root = doc.getMap<unknown>('__wiser_root__');
+      const before = root.toJSON();
+      let attempts = 0;
+      const TodoV2Flaky = Wiser.define(
+        'Todo',
+        (y) => ({
+          title: y.text(),
+          tags: y.array<string>(),
+        }),
+        {
+          version: 2,
+          migrations: {
+            2: ({ root }) => {
+              attempts += 1;
+              (root.get('tags') as Y.Array<string>).push(['migrated']);
+              if (attempts === 1) {
+                throw new Error('disk on fire');
+              }
+            },
+          },
+        }
+      );
+
+      expect(() => TodoV2Flaky.ensureStructure(doc)).toThrow(
+        /version 2 failed: disk on fire/
+      );
+      expect(root.toJSON()).toEqual(before);
+      expect(doc.getMap('__wiser_meta__').has('version')).toBe(false);
+
+      const data = TodoV2Flaky.ensureStructure(doc);
+      expect(data.tags.toArray()).toEqual(['work', 'urgent', 'migrated']);
+      expect(doc.getMap('__wiser_meta__').get('version')).toBe(2);
+    });
+
+    it('rejects invalid versions', () => {
+      expect(() =>
+        Wiser.define('Broken', (y) => ({ text: y.text() }), { version: 0 })
+      ).toThrow(/positive integer/);
+    });
+  });
 });
@@ -0,0 +1,213 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { AddressInfo } from 'node:net';
+import * as decoding from 'lib0/decoding';
+import * as encoding from 'lib0/encoding';
+import { WebSocket, WebSocketServer } from 'ws';
+import * as Y from 'yjs';
+import { createYWebsocketAdapter } from '../src/realtime/yWebsocketAdapter';
+import type { YWebsocketAdapter } from '../src/realtime/yWebsocketAdapter';
+import { WiserRuntime } from '../src/runtime/runtime';
+import { createInMemoryStorageAdapter } from '../src/storage/inMemoryStorageAdapter';
+import { Wiser } from '../src/wiser';
+
+const Counter = Wiser.define('Counter', (y) => ({
+  stats: y.map<number>(),
+}));
+
+// Minimal y-websocket server: one Y.Doc per room, updates fanned out to the
+// other connections in the room.
+function startServer() {
+  const rooms = new Map<string, { doc: Y.Doc; sockets: Set<WebSocket> }>();
+  const server = new WebSocketServer({ port: 0 });
+  const received: Array<{ room: string; syncType: number }> = [];
+
+  const encodeSync = (syncType: number, payload: Uint8Array) => {
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, 0);
+    encoding.writeVarUint(encoder, syncType);
+    encoding.writeVarUint8Array(encoder, payload);
+    return encoding.toUint8Array(encoder);
+  };
+
+  server.on('connection', (socket, request) => {
+    const name = decodeURIComponent((request.url ?? '/').slice(1).split('?')[0]!);
+    let room = rooms.get(name);
+    if (!room) {
+      room = { doc: new Y.Doc(), sockets: new Set() };
+      rooms.set(name, room);
+    }
+    const current = room;
+    current.sockets.add(socket);
+    socket.on('close', () => current.sockets.delete(socket));
+    socket.send(encodeSync(0, Y.encodeStateVector(current.doc)));
+    socket.on('message', (data: Buffer) => {
+      const decoder = decoding.createDecoder(new Uint8Array(data));
+      if (decoding.readVarUint(decoder) !== 0) return;
+      const syncType = decoding.readVarUint(decoder);
+      const payload = decoding.readVarUint8Array(decoder);
+      received.push({ room: name, syncType });
+      if (syncType === 0) {
+        socket.send(encodeSync(1, Y.encodeStateAsUpdate(current.doc, payload)));
+        return;
+      }
+      Y.applyUpdate(current.doc, payload);
+      for (const peer of current.sockets) {
+        if (peer !== socket) {
+          peer.send(encodeSync(2, payload));
+        }
+      }
+    });
+  });
+
+  const url = new Promise<string>((resolve) => {
+    server.on('listening', () => {
+      resolve(`ws://127.0.0.1:${(server.address() as AddressInfo).port}`);
+    });
+  });
+
+  return {
+    url,
+    received,
+    roomDoc(name: string) {
+      return rooms.get(name)?.doc ?? null;
+    },
+    dropConnections() {
+      for (const room of rooms.values()) {
+        for (const socket of room.sockets) socket.terminate();
+      }
+    },
+    close: () =>
+      new Promise<void>((resolve) => {
+        for (const client of server.clients) client.terminate();
+        server.close(() => resolve());
+      }),
+  };
+}
+
+const waitFor = async (predicate: () => boolean, timeout = 2000) => {
+  const started = Date.now();
+  while (!predicate()) {
+    if (Date.now() - started > timeout) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+};
+
+const bytesEqual = (a: Uint8Array, b: Uint8Array) =>
+  a.byteLength === b.byteLength && a.every((value, index) => value === b[index]);
+
+describe('createYWebsocketAdapter', () => {
+  let server: ReturnType<typeof startServer>;
+  let url: string;
+  const adapters: YWebsocketAdapter[] = [];
+
+  const createAdapter = () => {
+    const adapter = createYWebsocketAdapter({
+      url,
+      WebSocket,
+      reconnectDelay: 20,
+      pullTimeout: 1000,
+      onError: () => undefined,
+    });
+    adapters.push(adapter);
+    return adapter;
+  };
+
+  beforeEach(async () => {
+    server = startServer();
+    url = await server.url;
+  });
+
+  afterEach(async () => {
+    for (const adapter of adapters.splice(0)) adapter.dispose();
+    await server.close();
+  });
+
+  it('pushes updates and pulls state-vector diffs from the room', async () => {
+    const adapter = createAdapter();
+    const source = new Y.Doc();
+    source.getMap('root').set('title', 'hello');
+
+    await adapter.sync.push('doc-1', Y.encodeStateAsUpdate(source));
+    await waitFor(() => server.roomDoc('doc-1')?.getMap('root').get('title') === 'hello');
+
+    const fresh = createAdapter();
+    const diff = await fresh.sync.pull('doc-1');
+    expect(diff).not.toBeNull();
+    const target = new Y.Doc();
+    Y.applyUpdate(target, diff!);
+    expect(target.getMap('root').get('title')).toBe('hello');
+
+    const upToDate = await fresh.sync.pull('doc-1', Y.encodeStateVector(target));
+    expect(upToDate).toBeNull();
+  });
+
+  it('delivers peer updates to subscribers and skips publishing pushed bytes twice', async () => {
+    const alice = createAdapter();
+    const bob = createAdapter();
+    const received: Uint8Array[] = [];
+    bob.realtime.subscribe('doc-1', (update) => received.push(update));
+    await bob.sync.pull('doc-1');
+
+    const source = new Y.Doc();
+    source.getMap('root').set('count', 1);
+    const update = Y.encodeStateAsUpdate(source);
+    await alice.sync.push('doc-1', update);
+    await alice.realtime.publish('doc-1', update);
+
+    await waitFor(() => received.length > 0);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(received).toHaveLength(1);
+    const target = new Y.Doc();
+    Y.applyUpdate(target, received[0]!);
+    expect(target.getMap('root').get('count')).toBe(1);
+    expect(server.received.filter((entry) => entry.syncType === 2)).toHaveLength(1);
+  });
+
+  it('answers the server handshake with local state after reconnecting', async () => {
+    const adapter = createAdapter();
+    const local = new Y.Doc();
+    adapter.realtime.subscribe('doc-2', () => undefined, {
+      getStateVector: () => Y.encodeStateVector(local),
+      encodeStateAsUpdate: async (stateVector) =>
+        Y.encodeStateAsUpdate(local, stateVector),
+    });
+    await waitFor(() => server.roomDoc('doc-2') !== null);
+
+    server.dropConnections();
+    local.getMap('root').set('offline', true);
+
+    await waitFor(
+      () => server.roomDoc('doc-2')?.getMap('root').get('offline') === true,
+      3000
+    );
+  });
+
+  it('syncs runtimes through a y-websocket room', async () => {
+    const aliceTransport = createAdapter();
+    const bobTransport = createAdapter();
+    const alice = new WiserRuntime({
+      storage: createInMemoryStorageAdapter(),
+      sync: aliceTransport.sync,
+      realtime: aliceTransport.realtime,
+    });
+    const bob = new WiserRuntime({
+      storage: createInMemoryStorageAdapter(),
+      sync: bobTransport.sync,
+      realtime: bobTransport.realtime,
+    });
+
+    const aliceDoc = await alice.getDocument('doc-1', Counter);
+    const bobDoc = await bob.getDocument('doc-1', Counter);
+    // Both runtimes scaffold the model concurrently; let the room settle first.
+    await waitFor(() =>
+      bytesEqual(Y.encodeStateVector(aliceDoc.doc), Y.encodeStateVector(bobDoc.doc))
+    );
+
+    await aliceDoc.mutate((draft) => {
+      draft.stats.set('count', 5);
+    });
+    await waitFor(() => bobDoc.data.stats.get('count') === 5);
+  });
+});